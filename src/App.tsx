@@ -26,6 +26,12 @@ import { usePostProcessingControls } from './hooks/usePostProcessingControls';
 import { Leva } from 'leva';
 import { MobileControlsProvider } from './contexts/MobileControlsContext';
 import { MobileControls } from './components/MobileControls';
+import { HealthBar } from './components/HealthBar';
+import { ReplayControls } from './components/ReplayControls';
+import { HealthManager } from './utils/HealthManager';
+import { KeyBindingsPanel } from './components/KeyBindingsPanel';
+import { useKeyBindings } from './hooks/useKeyBindings';
+import { describeBindings, toKeyboardMap } from './utils/keyBindings';
 
 import { useTextToSpeech } from './hooks/useTextToSpeech';
 import { TextToSpeechPanel } from './components/TextToSpeechPanel';
@@ -83,8 +89,16 @@ function App() {
   const [avatarUrlFromRpm, setAvatarUrlFromRpm] = React.useState<string | undefined>(undefined);
   const rpmFrameRef = React.useRef<HTMLIFrameElement | null>(null);
 
+  // ---- Key bindings ----
+  const keyBindings = useKeyBindings();
+  const [isBindingsOpen, setIsBindingsOpen] = React.useState(false);
+  const keyboardMap = React.useMemo(() => toKeyboardMap(keyBindings.bindings), [keyBindings.bindings]);
+
   const tts = useTextToSpeech({ endpoint: '/api/tts' });
 
+  // Shared by the character (which deals damage and respawns) and the HUD
+  const health = React.useMemo(() => new HealthManager(), []);
+
   React.useEffect(() => {
     const onMessage = (event: MessageEvent) => {
       if (event.origin !== RPM_IFRAME_ORIGIN) return;
@@ -129,7 +143,7 @@ function App() {
       <Bolt className="fixed top-4 right-4 w-6 h-6 text-white opacity-50" />
 
       <div className="fixed top-4 left-1/2 -translate-x-1/2 text-white font-mono text-sm pointer-events-none select-none bg-white/30 px-4 py-2 rounded-lg backdrop-blur-sm z-50">
-        WASD to move | SPACE to jump | SHIFT to run
+        {describeBindings(keyBindings.bindings, keyBindings.layout)}
       </div>
 
       {/* ---- Customize Avatar button ---- */}
@@ -141,6 +155,13 @@ function App() {
           Customize Avatar
         </button>
 
+        <button
+          className="px-4 py-2 rounded-lg bg-white/20 text-white backdrop-blur-sm hover:bg-white/30 transition"
+          onClick={() => setIsBindingsOpen(true)}
+        >
+          Controls
+        </button>
+
         {avatarUrlFromRpm ? (
           <a
             className="text-white/90 text-sm underline underline-offset-4"
@@ -178,19 +199,24 @@ function App() {
         </div>
       ) : null}
 
+      {isBindingsOpen ? (
+        <KeyBindingsPanel
+          bindings={keyBindings.bindings}
+          conflicts={keyBindings.conflicts}
+          layout={keyBindings.layout}
+          setBinding={keyBindings.setBinding}
+          resetBindings={keyBindings.resetBindings}
+          onClose={() => setIsBindingsOpen(false)}
+        />
+      ) : null}
+
+      <HealthBar health={health} />
+      <ReplayControls target={characterRef} />
+
       <Leva collapsed />
       <MobileControlsProvider>
         <MobileControls />
-        <KeyboardControls
-          map={[
-            { name: 'forward', keys: ['ArrowUp', 'w', 'W'] },
-            { name: 'backward', keys: ['ArrowDown', 's', 'S'] },
-            { name: 'left', keys: ['ArrowLeft', 'a', 'A'] },
-            { name: 'right', keys: ['ArrowRight', 'd', 'D'] },
-            { name: 'jump', keys: ['Space'] },
-            { name: 'sprint', keys: ['ShiftLeft', 'ShiftRight'] }
-          ]}
-        >
+        <KeyboardControls map={keyboardMap}>
           <TextToSpeechPanel
             speak={tts.speak}
             stop={tts.stop}
@@ -219,15 +245,17 @@ function App() {
               shadow-bias={-0.0001}
               shadow-normalBias={0.02}
             />
-            <Physics interpolate={false} positionIterations={5} velocityIterations={4}>
+            {/* Fixed 60 Hz simulation, interpolated for rendering at any frame rate */}
+            <Physics timeStep={1 / 60} interpolate positionIterations={5} velocityIterations={4}>
               <CharacterController
                 ref={characterRef}
                 avatarUrl={avatarUrlFromRpm}
                 ttsAudioRef={tts.audioRef}
+                health={health}
               />
               <Ground />
+              <FollowCamera target={characterRef} />
             </Physics>
-            <FollowCamera target={characterRef} />
             <EffectComposer>
               <DynamicDepthOfField
                 enabled={postProcessing.depthOfFieldEnabled}
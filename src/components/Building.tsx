@@ -1,5 +1,6 @@
 import { useGLTF } from '@react-three/drei';
 import { RigidBody } from '@react-three/rapier';
+import { CameraOccluder } from './CameraOccluder';
 
 export function Building() {
   const { scene } = useGLTF('/models/building.glb');
@@ -13,13 +14,15 @@ export function Building() {
   });
 
   return (
-    <RigidBody type="fixed" colliders="trimesh">
-      <primitive 
-        object={scene} 
-        position={[0, 0, 0]} 
-        scale={1}
-        rotation={[0, 0, 0]}
-      />
-    </RigidBody>
+    <CameraOccluder>
+      <RigidBody type="fixed" colliders="trimesh">
+        <primitive 
+          object={scene} 
+          position={[0, 0, 0]} 
+          scale={1}
+          rotation={[0, 0, 0]}
+        />
+      </RigidBody>
+    </CameraOccluder>
   );
 }
\ No newline at end of file
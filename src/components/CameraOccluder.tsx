@@ -0,0 +1,22 @@
+import { useLayoutEffect, useRef, type ReactNode } from 'react';
+import type { Group, Mesh } from 'three';
+
+/** Layer the follow camera raycasts for occluders; tagged meshes still render on layer 0 */
+export const OCCLUDER_LAYER = 1;
+
+/**
+ * Meshes inside can hide the character, so the follow camera fades them out
+ * while they're between it and the head. Untagged meshes are never tested.
+ */
+export function CameraOccluder({ children }: { children: ReactNode }) {
+  const group = useRef<Group>(null);
+
+  // Every commit, so meshes added later are tagged too
+  useLayoutEffect(() => {
+    group.current?.traverse((child) => {
+      if ((child as Mesh).isMesh) child.layers.enable(OCCLUDER_LAYER);
+    });
+  });
+
+  return <group ref={group}>{children}</group>;
+}
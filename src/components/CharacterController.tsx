@@ -1,99 +1,625 @@
 // CharacterController.tsx
 
-import React, { useImperativeHandle, useRef, useState } from "react";
-import { useFrame } from "@react-three/fiber";
-import { Vector3, MathUtils } from "three";
+import React, { useEffect, useImperativeHandle, useMemo, useRef, useState } from "react";
+import { useFrame, useThree } from "@react-three/fiber";
+import { Vector3, MathUtils, type Object3D } from "three";
 import {
   CapsuleCollider,
   RigidBody,
+  type RapierCollider,
+  type ContactForcePayload,
+  type RapierRigidBody,
   type RigidBodyApi,
+  useBeforePhysicsStep,
   useRapier,
 } from "@react-three/rapier";
-import { useKeyboardControls } from "@react-three/drei";
 
 import { useCharacterControls } from "../hooks/useCharacterControls";
 import {
-  calculateMovement,
+  createFallForce,
   createJumpImpulse,
   createMovementVelocity,
+  createSlideVelocity,
+  getCameraYaw,
+  getPointVelocity,
+  projectOnGround,
+  resolveYawRelative,
+  type MovementSpace,
 } from "../utils/physics";
-import { useMobileControls } from "../contexts/MobileControlsContext";
-import { CharacterModel } from "./CharacterModel";
+import { useInput } from "../hooks/useInput";
+import {
+  createGroundInfo,
+  createLedgeGrab,
+  createWallInfo,
+  createWaterInfo,
+  probeCeiling,
+  probeCheckpoint,
+  probeGround,
+  probeLedge,
+  probeStep,
+  probeWall,
+  probeWater,
+  type GroundInfo,
+  type LedgeGrab,
+  type WallInfo,
+  type WaterInfo,
+} from "../utils/probes";
+import { createRagdollState, type RagdollState } from "../hooks/useRagdoll";
+import { HealthManager } from "../utils/HealthManager";
+import type { CharacterInput, CharacterReplay } from "../schemas/character";
+import { CharacterModel, type HitReaction, type Landing } from "./CharacterModel";
 
 const DEBUG_GROUND = false;
 
+// Feet position on load, and the respawn point until a checkpoint is reached
+const SPAWN_POSITION: [number, number, number] = [0, 0.25, 1];
+
+// Feet closer than this to a kinematic body make it the platform we ride on
+const PLATFORM_CONTACT_DISTANCE = 0.25;
+
+// Capsule: member of group 2, collides with floor (0) and walls (1)
+const CHARACTER_COLLISION_GROUPS = 0x00040003;
+const CAPSULE_HALF_HEIGHT = 0.8;
+const CAPSULE_RADIUS = 0.4;
+const STANDING_HEIGHT = 2 * (CAPSULE_HALF_HEIGHT + CAPSULE_RADIUS);
+// Jump impulses turn into velocity by the standing capsule's mass (density 1),
+// fixed so a crouched, lighter capsule doesn't jump higher
+const CHARACTER_MASS =
+  Math.PI * CAPSULE_RADIUS * CAPSULE_RADIUS * (2 * CAPSULE_HALF_HEIGHT + (4 / 3) * CAPSULE_RADIUS);
+
+// Hanging: feet this far below the ledge top, capsule this far off the wall
+const HANG_DEPTH = 2.05;
+const LEDGE_WALL_GAP = 0.05;
+// Share of a climb spent rising before moving over the edge
+const CLIMB_RISE_PORTION = 0.6;
+
+// Easing rates (1/s) for facing and velocity; at 60 Hz these match per-tick
+// factors of 0.2 (facing), 0.25 (ground velocity) and 0.02 (coasting to a stop in the air)
+const ROTATION_RATE = 13.4;
+const GROUND_VELOCITY_RATE = 17.3;
+const AIR_STOP_RATE = 1.2;
+// Visual step-up offset easing, 1/s
+const STEP_OFFSET_RATE = 15;
+
+// Ragdolled, the capsule rides this far under the pelvis so the camera keeps following
+const RAGDOLL_FEET_BELOW_PELVIS = 0.15;
+// Rough pelvis height above the feet when standing
+const PELVIS_HEIGHT = 0.95;
+
+/**
+ * "dynamic" drives a dynamic rigid body by velocity.
+ * "kinematic" moves a kinematic body through Rapier's character controller
+ * (autostep, snap-to-ground, slope limits).
+ */
+export type CharacterControllerMode = "dynamic" | "kinematic";
+
+type Velocity = { x: number; y: number; z: number };
+
+/**
+ * Shorter capsule while crouched, feet staying put. Applied to the collider
+ * from the physics tick, not through React props, so the resize lands on the
+ * same tick at any frame rate.
+ */
+function fitCapsule(collider: RapierCollider | null, crouched: boolean, crouchHeight: number) {
+  if (!collider) return;
+  const halfHeight = crouched ? Math.max(0, crouchHeight / 2 - CAPSULE_RADIUS) : CAPSULE_HALF_HEIGHT;
+  collider.setHalfHeight(halfHeight);
+  collider.setTranslationWrtParent({ x: 0, y: halfHeight + CAPSULE_RADIUS, z: 0 });
+}
+
+/**
+ * Everything the controller reads from the player, sampled once per physics
+ * tick. Movement is already in world space (camera-relative input resolved),
+ * so a recorded sequence of these replays the same way regardless of camera.
+ */
+export type ControllerInput = {
+  /** Movement direction, world space (x right, z back), scaled by analog magnitude (0..1) */
+  moveX: number;
+  moveZ: number;
+  sprint: boolean;
+  jump: boolean;
+  crouch: boolean;
+  dash: boolean;
+};
+
+export type AirJumpEvent = {
+  /** 2 for a double jump, 3 for a triple jump, ... */
+  jumpNumber: number;
+  /** Feet position when the jump fired */
+  position: Vector3;
+};
+
 type CharacterControllerProps = {
   avatarUrl?: string;
+  /**
+   * "camera" resolves input against the active camera's horizontal basis,
+   * "world" maps forward to -Z (useful for fixed top-down cameras).
+   */
+  movementSpace?: MovementSpace;
+  mode?: CharacterControllerMode;
   ttsAudioRef?: React.RefObject<HTMLAudioElement>;
+  /** Fires on every jump made in the air, e.g. to spawn VFX */
+  onAirJump?: (event: AirJumpEvent) => void;
+  /** Health and respawn events for the UI; the controller makes its own if omitted */
+  health?: HealthManager;
 };
 
-export const CharacterController = React.forwardRef<any, CharacterControllerProps>(
-  ({ avatarUrl, ttsAudioRef }, ref) => {
+export type CharacterControllerHandle = {
+  position: { clone: () => Vector3 };
+  /** The character's rigid body, e.g. to exclude it from scene queries */
+  readonly rigidBody: RapierRigidBody | null;
+  /** Root of the rendered avatar */
+  readonly object: Object3D | null;
+  /** Latest ground probe: normal, slope angle and supporting collider */
+  readonly ground: GroundInfo;
+  /** Current ledge hang/climb state */
+  readonly ledge: LedgeGrab;
+  /** True during a dash's invulnerability window */
+  readonly isInvulnerable: boolean;
+  /** True while a hit has taken control away */
+  readonly isStunned: boolean;
+  /** True while the body is a physics ragdoll */
+  readonly isRagdoll: boolean;
+  readonly health: HealthManager;
+  /** Bumped on every respawn, so followers can snap instead of easing across the map */
+  readonly respawnCount: number;
+  /**
+   * Push the character along `direction` at `strength` m/s (plus a little lift),
+   * stun it briefly and deal `damage` (by default scaled from `strength` by
+   * knockbackDamagePerSpeed). Ignored while invulnerable.
+   */
+  applyKnockback: (direction: Velocity, strength: number, damage?: number) => void;
+  readonly isRecording: boolean;
+  readonly isReplaying: boolean;
+  /** Capture input from the next tick on, starting from the current body state */
+  startRecording: () => void;
+  /** Stop capturing; null if nothing was recorded */
+  stopRecording: () => CharacterReplay | null;
+  /**
+   * Reset to the replay's initial state and feed its frames back in instead of
+   * live input. Resolves when the replay runs out or is stopped.
+   */
+  playReplay: (replay: CharacterReplay) => Promise<void>;
+  stopReplay: () => void;
+};
+
+export const CharacterController = React.forwardRef<CharacterControllerHandle, CharacterControllerProps>(
+  ({ avatarUrl, movementSpace = "camera", mode = "dynamic", ttsAudioRef, onAirJump, health: healthProp }, ref) => {
     const rigidBody = useRef<RigidBodyApi>(null);
+    const collider = useRef<RapierCollider>(null);
     const modelRef = useRef<THREE.Group>(null);
 
     const { rapier, world } = useRapier();
-    const { isJumping: isMobileJumping, movement: mobileMovement } = useMobileControls();
-    const [, getKeys] = useKeyboardControls();
+    const readPlayerInput = useInput();
+    const getThree = useThree((state) => state.get);
     const controls = useCharacterControls();
 
+    const health = useMemo(() => healthProp ?? new HealthManager(), [healthProp]);
+
     const [isSprinting, setIsSprinting] = useState(false);
     const [isMoving, setIsMoving] = useState(false);
     const [isGrounded, setIsGrounded] = useState(false);
+    const [isSliding, setIsSliding] = useState(false);
+    const [isCrouching, setIsCrouching] = useState(false);
+    const [ledgeState, setLedgeState] = useState<LedgeGrab["state"]>("none");
+    const [shimmyDirection, setShimmyDirection] = useState(0);
+    const [isWallSliding, setIsWallSliding] = useState(false);
+    const [isDashing, setIsDashing] = useState(false);
+    const [airJumpCount, setAirJumpCount] = useState(0);
+    const [isRising, setIsRising] = useState(false);
+    const [isSwimming, setIsSwimming] = useState(false);
+    const [hitReaction, setHitReaction] = useState<HitReaction | null>(null);
+    const [landing, setLanding] = useState<Landing | null>(null);
+    const [isRagdoll, setIsRagdoll] = useState(false);
+    const [isGettingUp, setIsGettingUp] = useState(false);
 
     // Avoid re-rendering every frame by only committing state when it changes
     const isMovingRef = useRef(false);
     const isSprintingRef = useRef(false);
     const isGroundedRef = useRef(false);
+    const isSlidingRef = useRef(false);
+    const isCrouchingRef = useRef(false);
+    const ledgeStateRef = useRef<LedgeGrab["state"]>("none");
+    const shimmyDirectionRef = useRef(0);
+    const isWallSlidingRef = useRef(false);
+    const isDashingRef = useRef(false);
+    const airJumpCountRef = useRef(0);
+    const isRisingRef = useRef(false);
+    const isSwimmingRef = useRef(false);
+    const isRagdollRef = useRef(false);
+    const isGettingUpRef = useRef(false);
+
+    const groundRef = useRef<GroundInfo>(createGroundInfo());
+    // Velocity relative to any platform underfoot, as of the latest tick, for animation
+    const relativeVelocity = useRef(new Vector3());
+    const waterRef = useRef<WaterInfo>(createWaterInfo());
+
+    // Ledge grab: the held edge, a re-grab delay after letting go, and the climb path
+    const ledgeRef = useRef<LedgeGrab>(createLedgeGrab());
+    const ledgeCooldown = useRef(0);
+    const climbFrom = useRef(new Vector3());
+    const climbTo = useRef(new Vector3());
+    const climbProgress = useRef(0);
+
+    // Walls: latest side probe, and time left ignoring air control after a wall jump
+    const wallRef = useRef<WallInfo>(createWallInfo());
+    const wallJumpLock = useRef(0);
+
+    // Dash timers (seconds left), air dashes spent since landing, and the locked direction
+    const dashHeld = useRef(false);
+    const dashTimer = useRef(0);
+    const dashCooldownTimer = useRef(0);
+    const invulnerableTimer = useRef(0);
+    const airDashesUsed = useRef(0);
+    const dashDirection = useRef(new Vector3());
+
+    // Knockback requested since last frame, applied at the start of the next one,
+    // with the damage it deals: explicit amounts, and hit speeds left to scale
+    const pendingKnockback = useRef(new Vector3());
+    const pendingDamage = useRef(0);
+    const pendingHitSpeed = useRef(0);
+    const stunTimer = useRef(0);
+
+    // Ragdoll: shared with the model, which runs the simulation
+    const ragdollRef = useRef<RagdollState>(createRagdollState());
+    const ragdollTimer = useRef(0);
+    const getUpTimer = useRef(0);
+
+    // Falls: height we last had footing at (so jumping on the spot never counts),
+    // and the fastest we have fallen since, i.e. the landing speed
+    const fallStartY = useRef(SPAWN_POSITION[1]);
+    const fallSpeed = useRef(0);
+    const lastPelvisY = useRef(0);
+    // Landing slowdown: share of move speed lost, easing out over the time left
+    const landingSlowdown = useRef(0);
+    const landingTimer = useRef(0);
+
+    // Health: where we come back, and time left lying dead before we do
+    const spawnPoint = useRef({
+      id: null as string | null,
+      position: new Vector3(...SPAWN_POSITION),
+      yaw: 0,
+    });
+    const isDeadRef = useRef(false);
+    const respawnTimer = useRef(0);
+    const respawnCount = useRef(0);
+
+    // Recording and replay: one input frame per tick, captured or fed back in.
+    // Sessions start at the next tick, from a freshly reset state.
+    const pendingSession = useRef<
+      { kind: "record" } | { kind: "replay"; replay: CharacterReplay; done: () => void } | null
+    >(null);
+    const recording = useRef<CharacterReplay | null>(null);
+    const replaying = useRef<{ replay: CharacterReplay; index: number; done: () => void } | null>(null);
 
     const targetRotation = useRef(0);
     const currentRotation = useRef(0);
+    // Facing at the previous tick and time since the latest one, to interpolate the model
+    const previousRotation = useRef(0);
+    const sinceTick = useRef(0);
+    // Simulated seconds, advanced by the fixed timestep
+    const simTime = useRef(0);
+
+    // Jump timing (seconds), so coyote time and buffering are frame-rate independent
+    const timeSinceGrounded = useRef(Infinity);
+    const jumpBufferTimer = useRef(0);
+    const jumpHeld = useRef(false);
+    // Rising from our own jump: ground probes still reach the floor for a while
+    const isJumpingRef = useRef(false);
+    const jumpCut = useRef(false);
+    // Jumps spent since last standing on the ground, including the ground jump
+    const jumpsUsed = useRef(0);
+
+    // Kinematic mode integrates its own velocity and asks Rapier where it may move
+    const isKinematic = mode === "kinematic";
+    const characterController = useRef<ReturnType<typeof world.createCharacterController> | null>(null);
+    const kinematicVelocity = useRef(new Vector3());
+    const kinematicGrounded = useRef(false);
 
-    useFrame(() => {
+    // Velocity of the kinematic body we're standing on; everything else in the
+    // frame works relative to it
+    const platformVelocity = useRef(new Vector3());
+
+    // Visual offset left over from a step-up, eased out so the avatar doesn't pop
+    const stepOffset = useRef(0);
+
+    useEffect(() => {
+      health.setMaxHealth(controls.maxHealth);
+    }, [health, controls.maxHealth]);
+
+    useEffect(() => {
+      if (!isKinematic) return;
+
+      const kcc = world.createCharacterController(0.01);
+      kcc.setUp({ x: 0, y: 1, z: 0 });
+      kcc.setApplyImpulsesToDynamicBodies(true);
+      kcc.setCharacterMass(50);
+      kcc.setSlideEnabled(true);
+      characterController.current = kcc;
+      kinematicVelocity.current.set(0, 0, 0);
+
+      return () => {
+        world.removeCharacterController(kcc);
+        characterController.current = null;
+      };
+    }, [world, isKinematic]);
+
+    useEffect(() => {
+      const kcc = characterController.current;
+      if (!kcc) return;
+
+      const slope = MathUtils.degToRad(controls.maxSlopeAngle);
+      kcc.setMaxSlopeClimbAngle(slope);
+      kcc.setMinSlopeSlideAngle(slope);
+
+      if (controls.maxStepHeight > 0) {
+        kcc.enableAutostep(controls.maxStepHeight, controls.minStepDepth, false);
+      } else {
+        kcc.disableAutostep();
+      }
+
+      if (controls.snapToGroundDistance > 0) {
+        kcc.enableSnapToGround(controls.snapToGroundDistance);
+      } else {
+        kcc.disableSnapToGround();
+      }
+    }, [
+      isKinematic,
+      controls.maxSlopeAngle,
+      controls.maxStepHeight,
+      controls.minStepDepth,
+      controls.snapToGroundDistance,
+    ]);
+
+    // Keyboard, touch and gamepad merged into one snapshot, with the camera
+    // heading it is relative to (PI maps forward to -Z, i.e. world space)
+    const sampleInput = (): CharacterInput => {
+      const player = readPlayerInput();
+      const cameraYaw =
+        movementSpace === "camera" ? getCameraYaw(getThree().camera) ?? Math.PI : Math.PI;
+
+      return {
+        forward: player.forward,
+        backward: player.backward,
+        left: player.left,
+        right: player.right,
+        jump: player.jump,
+        sprint: player.sprint,
+        crouch: player.crouch,
+        dash: player.dash,
+        move: { x: player.moveX, y: player.moveY },
+        cameraYaw,
+      };
+    };
+
+    // Live and replayed frames both go through here; partial stick tilt walks slower
+    const toControllerInput = (frame: CharacterInput): ControllerInput => {
+      const move = resolveYawRelative(frame.move.x, frame.move.y, frame.cameraYaw);
+      return {
+        moveX: move.x,
+        moveZ: move.z,
+        sprint: frame.sprint,
+        jump: frame.jump,
+        crouch: frame.crouch,
+        dash: frame.dash,
+      };
+    };
+
+    // Put the body somewhere with a clean slate: alive, standing unless told to
+    // crouch, no ragdoll, timers, ledge or swim state
+    const resetCharacter = (
+      rb: RapierRigidBody,
+      position: Velocity,
+      velocity: Velocity,
+      yaw: number,
+      crouched = false
+    ) => {
+      const ragdoll = ragdollRef.current;
+      ragdoll.active = false;
+      isRagdollRef.current = false;
+      setIsRagdoll(false);
+      getUpTimer.current = 0;
+      isGettingUpRef.current = false;
+      setIsGettingUp(false);
+      setHitReaction(null);
+      setLanding(null);
+
+      stunTimer.current = 0;
+      pendingKnockback.current.set(0, 0, 0);
+      pendingDamage.current = 0;
+      pendingHitSpeed.current = 0;
+      dashHeld.current = false;
+      dashTimer.current = 0;
+      dashCooldownTimer.current = 0;
+      invulnerableTimer.current = 0;
+      airDashesUsed.current = 0;
+      ledgeRef.current.state = "none";
+      ledgeCooldown.current = 0;
+      wallJumpLock.current = 0;
+      isJumpingRef.current = false;
+      jumpHeld.current = false;
+      jumpCut.current = false;
+      jumpBufferTimer.current = 0;
+      jumpsUsed.current = 0;
+      timeSinceGrounded.current = Infinity;
+
+      isDeadRef.current = false;
+      respawnTimer.current = 0;
+
+      isCrouchingRef.current = crouched;
+      fitCapsule(collider.current, crouched, controls.crouchHeight);
+      setIsCrouching(crouched);
+
+      platformVelocity.current.set(0, 0, 0);
+      kinematicVelocity.current.set(velocity.x, velocity.y, velocity.z);
+      kinematicGrounded.current = false;
+      rb.setTranslation(position, true);
+      rb.setLinvel(velocity, true);
+      if (isSwimmingRef.current && !isKinematic) rb.setGravityScale(1, true);
+      isSwimmingRef.current = false;
+      setIsSwimming(false);
+
+      targetRotation.current = yaw;
+      currentRotation.current = yaw;
+      previousRotation.current = yaw;
+
+      fallStartY.current = position.y;
+      fallSpeed.current = 0;
+      landingTimer.current = 0;
+    };
+
+    // The simulation runs once per fixed physics tick, so it behaves the same at
+    // any frame rate; the model is interpolated between ticks below
+    useBeforePhysicsStep(() => {
       const rb = rigidBody.current;
       if (!rb) return;
 
+      // Fixed while the Physics timeStep is (the default 1/60)
+      const delta = world.timestep;
+      simTime.current += delta;
+      previousRotation.current = currentRotation.current;
+      sinceTick.current = 0;
+
+      // Recording and replay sessions begin from a reset state; this tick only
+      // applies it, so both start stepping from exactly the same place
+      const session = pendingSession.current;
+      if (session) {
+        pendingSession.current = null;
+        if (session.kind === "replay") {
+          const initial = session.replay.initialState;
+          resetCharacter(rb, initial.position, initial.velocity, initial.rotation, initial.isCrouching);
+          isJumpingRef.current = initial.isJumping;
+          health.restore(initial.health ?? health.maxHealth);
+          recording.current = null;
+          replaying.current = { replay: session.replay, index: 0, done: session.done };
+        } else {
+          const t = rb.translation();
+          const v = isKinematic ? kinematicVelocity.current.clone().add(platformVelocity.current) : rb.linvel();
+          const initialState = {
+            position: { x: t.x, y: t.y, z: t.z },
+            velocity: { x: v.x, y: v.y, z: v.z },
+            rotation: currentRotation.current,
+            isGrounded: isGroundedRef.current,
+            isJumping: false,
+            isCrouching: isCrouchingRef.current,
+            health: health.health,
+          };
+          resetCharacter(
+            rb,
+            initialState.position,
+            initialState.velocity,
+            initialState.rotation,
+            initialState.isCrouching
+          );
+          health.restore(initialState.health);
+          recording.current = {
+            version: 1,
+            timeStep: delta,
+            mode,
+            initialState,
+            controls: { ...controls },
+            frames: [],
+          };
+        }
+        return;
+      }
+
+      // One input frame per tick: the replay's next one, or a live sample
+      const playing = replaying.current;
+      const frame = playing ? playing.replay.frames[playing.index++] ?? sampleInput() : sampleInput();
+      if (playing && playing.index >= playing.replay.frames.length) {
+        replaying.current = null;
+        playing.done();
+      }
+      recording.current?.frames.push(frame);
+      const input = toControllerInput(frame);
+
       const translation = rb.translation();
 
-      // Ground detection via multiple rays
-      const rayLength = 1.5;
-      const rayDir = { x: 0, y: -1, z: 0 };
+      // Ground detection via multiple rays (also run in kinematic mode for the normal)
+      const ground = probeGround(rapier, world, rb, translation, 1.5, groundRef.current);
+      let groundedNow = ground.grounded;
 
-      const rayOffsets = [
-        { x: 0, z: 0 },
-        { x: 0.3, z: 0 },
-        { x: -0.3, z: 0 },
-        { x: 0, z: 0.3 },
-        { x: 0, z: -0.3 },
-      ];
+      // Moving platforms: inherit the supporting kinematic body's velocity at our feet
+      const platformBody = ground.collider?.parent();
+      const onPlatform =
+        !!platformBody?.isKinematic() && ground.distance < PLATFORM_CONTACT_DISTANCE;
+      const platformVel = platformVelocity.current;
+      if (isKinematic) {
+        // Keep absolute velocity continuous when stepping on or off a platform
+        kinematicVelocity.current.add(platformVel);
+      }
+      if (onPlatform && platformBody) {
+        const v = getPointVelocity(platformBody, translation);
+        platformVel.set(v.x, v.y, v.z);
+      } else {
+        platformVel.set(0, 0, 0);
+      }
+      if (isKinematic) kinematicVelocity.current.sub(platformVel);
+
+      // Both modes read and write velocity through here, relative to any
+      // platform, so the rest of the frame (input, jumping, animation state) is shared
+      const getVelocity = (): Velocity => {
+        const v = isKinematic ? kinematicVelocity.current : rb.linvel();
+        if (isKinematic) return { x: v.x, y: v.y, z: v.z };
+        return { x: v.x - platformVel.x, y: v.y - platformVel.y, z: v.z - platformVel.z };
+      };
+      const setVelocity = (v: Velocity) => {
+        if (isKinematic) kinematicVelocity.current.set(v.x, v.y, v.z);
+        else rb.setLinvel({ x: v.x + platformVel.x, y: v.y + platformVel.y, z: v.z + platformVel.z }, true);
+      };
+      const own = getVelocity();
+      relativeVelocity.current.set(own.x, own.y, own.z);
+
+      // Kinematic mode moves through Rapier's character controller once the
+      // frame's velocity is settled. Swimming skips gravity; the water holds us up.
+      const moveKinematic = (applyGravity: boolean) => {
+        const kcc = characterController.current;
+        if (!isKinematic || !kcc || !collider.current || delta <= 0) return;
 
-      let groundedNow = false;
-      let closestHit: any = null;
+        const v = kinematicVelocity.current;
+        // Always pull down a little so Rapier keeps reporting ground contact
+        if (applyGravity) v.y = Math.max(v.y + world.gravity.y * delta, -controls.maxFallSpeed);
 
-      for (const offset of rayOffsets) {
-        const ray = new rapier.Ray(
+        kcc.computeColliderMovement(
+          collider.current,
           {
-            x: translation.x + offset.x,
-            y: translation.y,
-            z: translation.z + offset.z,
+            x: (v.x + platformVel.x) * delta,
+            y: (v.y + platformVel.y) * delta,
+            z: (v.z + platformVel.z) * delta,
           },
-          rayDir
+          rapier.QueryFilterFlags.EXCLUDE_SENSORS,
+          CHARACTER_COLLISION_GROUPS
         );
 
-        const hit = world.castRay(
-          ray,
-          rayLength,
-          true,
-          undefined,
-          undefined,
-          undefined,
-          rb
-        );
+        const moved = kcc.computedMovement();
+        rb.setNextKinematicTranslation({
+          x: translation.x + moved.x,
+          y: translation.y + moved.y,
+          z: translation.z + moved.z,
+        });
 
-        if (hit && (!closestHit || hit.toi < closestHit.toi)) {
-          closestHit = hit;
-          groundedNow = true;
-        }
+        kinematicGrounded.current = kcc.computedGrounded();
+        if (kinematicGrounded.current && v.y < 0) v.y = 0;
+        // Bumped a ceiling
+        if (v.y > 0 && moved.y < (v.y + platformVel.y) * delta - 1e-3) v.y = 0;
+      };
+
+      if (isKinematic) groundedNow = kinematicGrounded.current;
+
+      // Water: swim once the feet are deep enough, stop again in the shallows
+      const water = probeWater(rapier, world, rb, translation, waterRef.current);
+      const swimmingNow =
+        water.inWater &&
+        !isJumpingRef.current &&
+        water.depth > (isSwimmingRef.current ? controls.swimDepth * 0.8 : controls.swimDepth);
+      if (swimmingNow !== isSwimmingRef.current) {
+        isSwimmingRef.current = swimmingNow;
+        setIsSwimming(swimmingNow);
+        // Buoyancy replaces gravity while swimming
+        if (!isKinematic) rb.setGravityScale(swimmingNow ? 0 : 1, true);
+        // The water ends any dash
+        if (swimmingNow) dashTimer.current = 0;
       }
 
       if (groundedNow !== isGroundedRef.current) {
@@ -104,10 +630,265 @@ export const CharacterController = React.forwardRef<any, CharacterControllerProp
         }
       }
 
-      const input = getKeys();
-      const shouldJump = input.jump || isMobileJumping;
+      // Ragdoll: hand the body over to the model's physics skeleton
+      const ragdoll = ragdollRef.current;
+      const startRagdoll = (launch: Velocity) => {
+        if (!controls.ragdollEnabled || isRagdollRef.current) return;
+
+        ragdoll.active = true;
+        ragdoll.launchVelocity.set(
+          launch.x + platformVel.x,
+          launch.y + platformVel.y,
+          launch.z + platformVel.z
+        );
+        ragdoll.pelvis.set(translation.x, translation.y + PELVIS_HEIGHT, translation.z);
+        // Not at rest until the model reports otherwise
+        ragdoll.speed = Infinity;
+        ragdollTimer.current = 0;
+        isRagdollRef.current = true;
+        setIsRagdoll(true);
+
+        ledgeRef.current.state = "none";
+        dashTimer.current = 0;
+        kinematicVelocity.current.set(0, 0, 0);
+        lastPelvisY.current = ragdoll.pelvis.y;
+      };
+
+      // Fall damage: only for landings below where the fall began
+      const land = (feetY: number) => {
+        const drop = fallStartY.current - feetY;
+        if (drop >= controls.fallDamageHeight) {
+          health.damage(
+            (fallSpeed.current - controls.safeLandingSpeed) * controls.fallDamagePerSpeed,
+            "fall"
+          );
+        }
+        fallStartY.current = feetY;
+        fallSpeed.current = 0;
+      };
+
+      // Back to the last checkpoint with a clean slate
+      const respawn = () => {
+        const spawn = spawnPoint.current;
+
+        resetCharacter(rb, spawn.position, { x: 0, y: 0, z: 0 }, spawn.yaw);
+        respawnCount.current += 1;
+        health.respawn(spawn.position.clone(), spawn.id);
+      };
+
+      // Falling out of the world is fatal straight away
+      if (translation.y < controls.killPlaneY) {
+        health.kill("killPlane");
+        respawn();
+        return;
+      }
+
+      // Dead: lie still (limp, if ragdolls are on) until it's time to respawn
+      if (health.isDead && !isDeadRef.current) {
+        isDeadRef.current = true;
+        respawnTimer.current = controls.respawnDelay;
+        startRagdoll(getVelocity());
+      }
+      if (isDeadRef.current) {
+        respawnTimer.current -= delta;
+        if (respawnTimer.current <= 0) {
+          respawn();
+          return;
+        }
+      }
+
+      if (isRagdollRef.current) {
+        ragdollTimer.current += delta;
+        const feet = {
+          x: ragdoll.pelvis.x,
+          y: ragdoll.pelvis.y - RAGDOLL_FEET_BELOW_PELVIS,
+          z: ragdoll.pelvis.z,
+        };
+        rb.setNextKinematicTranslation(feet);
+
+        // The ragdoll has landed once the pelvis stops falling
+        const pelvisVy = delta > 0 ? (ragdoll.pelvis.y - lastPelvisY.current) / delta : 0;
+        lastPelvisY.current = ragdoll.pelvis.y;
+        if (pelvisVy < -1) fallSpeed.current = Math.max(fallSpeed.current, -pelvisVy);
+        else if (fallSpeed.current > 0) land(feet.y);
+
+        const settled =
+          ragdollTimer.current > controls.ragdollMinTime && ragdoll.speed < 0.5;
+        if (!isDeadRef.current && (settled || ragdollTimer.current > controls.ragdollMaxTime)) {
+          // Stand back up where the body came to rest
+          ragdoll.active = false;
+          isRagdollRef.current = false;
+          setIsRagdoll(false);
+          rb.setTranslation({ x: feet.x, y: feet.y + 0.1, z: feet.z }, true);
+          setVelocity({ x: 0, y: 0, z: 0 });
+          fallStartY.current = feet.y;
+          fallSpeed.current = 0;
+
+          getUpTimer.current = controls.getUpDuration;
+          isGettingUpRef.current = true;
+          setIsGettingUp(true);
+        }
+
+        pendingKnockback.current.set(0, 0, 0);
+        return;
+      }
+
+      // Checkpoints: the latest one entered is where we respawn
+      const checkpoint = isDeadRef.current ? null : probeCheckpoint(rapier, world, rb, translation);
+      if (checkpoint && checkpoint.id !== spawnPoint.current.id) {
+        spawnPoint.current = {
+          id: checkpoint.id,
+          position: checkpoint.spawn.clone(),
+          yaw: checkpoint.yaw,
+        };
+        health.reachCheckpoint(checkpoint.id, checkpoint.spawn.clone());
+      }
+
+      getUpTimer.current = Math.max(0, getUpTimer.current - delta);
+      if (isGettingUpRef.current && getUpTimer.current <= 0) {
+        isGettingUpRef.current = false;
+        setIsGettingUp(false);
+      }
+
+      // Dash timers run on while hanging or swimming too
+      dashTimer.current = Math.max(0, dashTimer.current - delta);
+      dashCooldownTimer.current = Math.max(0, dashCooldownTimer.current - delta);
+      invulnerableTimer.current = Math.max(0, invulnerableTimer.current - delta);
+
+      // Knockback: apply queued hits and take control away for a moment
+      stunTimer.current = Math.max(0, stunTimer.current - delta);
+      const knock = pendingKnockback.current;
+      if (knock.lengthSq() > 0 && invulnerableTimer.current <= 0) {
+        const strength = knock.length();
+        const lv = getVelocity();
+        setVelocity({
+          x: lv.x + knock.x,
+          y: Math.max(lv.y, 0) + knock.y + strength * controls.knockbackLift,
+          z: lv.z + knock.z,
+        });
+        isJumpingRef.current = true;
+        // Stunned, jump reads as released; don't let the jump cut eat the lift
+        jumpCut.current = true;
+        stunTimer.current = controls.stunDuration;
+        dashTimer.current = 0;
+        if (ledgeRef.current.state !== "none") {
+          ledgeRef.current.state = "none";
+          ledgeCooldown.current = 0.4;
+        }
+
+        // Which side the hit came from, relative to where we face
+        const yaw = currentRotation.current;
+        const forward = -(knock.x * Math.sin(yaw) + knock.z * Math.cos(yaw));
+        const right = -(-knock.x * Math.cos(yaw) + knock.z * Math.sin(yaw));
+        setHitReaction({
+          from:
+            Math.abs(forward) >= Math.abs(right)
+              ? forward > 0 ? "front" : "back"
+              : right > 0 ? "right" : "left",
+          time: simTime.current,
+        });
+
+        health.damage(
+          pendingDamage.current + pendingHitSpeed.current * controls.knockbackDamagePerSpeed,
+          "hit"
+        );
+
+        // Big hits knock us off our feet entirely
+        if (strength >= controls.ragdollImpactSpeed) startRagdoll(getVelocity());
+      }
+      knock.set(0, 0, 0);
+      pendingDamage.current = 0;
+      pendingHitSpeed.current = 0;
+      if (isRagdollRef.current) return;
+
+      const stunned = stunTimer.current > 0 || getUpTimer.current > 0 || isDeadRef.current;
+
+      const shouldJump = !stunned && input.jump;
+      const shouldDash = !stunned && input.dash;
+
+      const linvel = getVelocity();
+
+      // Jump press edge starts the buffer window, which then counts down
+      const jumpPressed = shouldJump && !jumpHeld.current;
+      if (jumpPressed) {
+        jumpBufferTimer.current = controls.jumpBufferTime;
+      } else {
+        jumpBufferTimer.current = Math.max(0, jumpBufferTimer.current - delta);
+      }
+      jumpHeld.current = shouldJump;
+
+      const dashPressed = shouldDash && !dashHeld.current;
+      dashHeld.current = shouldDash;
+
+      if (isJumpingRef.current && linvel.y <= 0) isJumpingRef.current = false;
+
+      // Too steep to stand on: no jumping, slide down instead
+      const onSteepSlope =
+        groundedNow && ground.slopeAngle > MathUtils.degToRad(controls.maxSlopeAngle);
+      const supported = groundedNow && !onSteepSlope && !isJumpingRef.current;
+      // Ground rays reach well below the feet; jumps, dashes and walls need real contact
+      const standing = supported && ground.distance <= controls.snapToGroundDistance;
+
+      // Falls: land (maybe taking damage) on footing, go limp once far enough below
+      // where the fall began
+      landingTimer.current = Math.max(0, landingTimer.current - delta);
+      if (standing) {
+        const impact = fallSpeed.current;
+        if (impact >= controls.softLandingSpeed) {
+          // Every jump hits the ground near the fall speed cap, so how far below
+          // the take-off point we came down is what makes a landing hard
+          const hard = fallStartY.current - translation.y >= controls.hardLandingHeight;
+          landingSlowdown.current = hard ? controls.hardLandingSlowdown : controls.softLandingSlowdown;
+          landingTimer.current = controls.landingRecoveryTime;
+          setLanding({ impact: hard ? "hard" : "soft", speed: impact, time: simTime.current });
+        }
+        land(translation.y);
+      } else if (swimmingNow || ledgeRef.current.state !== "none") {
+        fallStartY.current = translation.y;
+        fallSpeed.current = 0;
+      } else {
+        fallSpeed.current = Math.max(fallSpeed.current, -linvel.y);
+        if (linvel.y < 0 && fallStartY.current - translation.y > controls.ragdollFallHeight) {
+          startRagdoll(linvel);
+          return;
+        }
+      }
+
+      const slidingNow = onSteepSlope && !isJumpingRef.current;
+      if (slidingNow !== isSlidingRef.current) {
+        isSlidingRef.current = slidingNow;
+        setIsSliding(slidingNow);
+      }
 
-      const linvel = rb.linvel();
+      if (standing) timeSinceGrounded.current = 0;
+      else timeSinceGrounded.current += delta;
+
+      if (standing) jumpsUsed.current = 0;
+      // Walking off an edge spends the ground jump once coyote time runs out
+      else if (timeSinceGrounded.current > controls.coyoteTime) {
+        jumpsUsed.current = Math.max(1, jumpsUsed.current);
+      }
+      wallJumpLock.current = Math.max(0, wallJumpLock.current - delta);
+
+      // Crouch: shrink right away, only stand back up if there is headroom
+      const wantsCrouch = input.crouch;
+      let crouchNow = wantsCrouch && ledgeRef.current.state === "none" && !swimmingNow;
+      if (!wantsCrouch && isCrouchingRef.current) {
+        crouchNow = probeCeiling(
+          rapier,
+          world,
+          rb,
+          translation,
+          CAPSULE_RADIUS,
+          controls.crouchHeight,
+          STANDING_HEIGHT
+        );
+      }
+      if (crouchNow !== isCrouchingRef.current) {
+        isCrouchingRef.current = crouchNow;
+        fitCapsule(collider.current, crouchNow, controls.crouchHeight);
+        setIsCrouching(crouchNow);
+      }
 
       // Movement state (only update React state if it changes)
       const horizontalSpeed = Math.sqrt(linvel.x * linvel.x + linvel.z * linvel.z);
@@ -118,7 +899,7 @@ export const CharacterController = React.forwardRef<any, CharacterControllerProp
         setIsMoving(movingNow);
       }
 
-      const sprintNow = !!input.sprint && horizontalSpeed > 0.5;
+      const sprintNow = input.sprint && !crouchNow && horizontalSpeed > 0.5;
       if (sprintNow !== isSprintingRef.current) {
         isSprintingRef.current = sprintNow;
         setIsSprinting(sprintNow);
@@ -135,31 +916,264 @@ export const CharacterController = React.forwardRef<any, CharacterControllerProp
         targetRotation.current = currentRotation.current + angleDiff;
       }
 
+      // Platforms spinning under us carry our facing with them
+      if (onPlatform && platformBody) {
+        const yawCarry = platformBody.angvel().y * delta;
+        targetRotation.current += yawCarry;
+        currentRotation.current += yawCarry;
+      }
+
       // Smooth rotation
-      if (modelRef.current) {
-        currentRotation.current = MathUtils.lerp(
-          currentRotation.current,
-          targetRotation.current,
-          0.2
+      currentRotation.current = MathUtils.damp(
+        currentRotation.current,
+        targetRotation.current,
+        ROTATION_RATE,
+        delta
+      );
+
+      // Handle movement
+      const movement =
+        !stunned && (input.moveX !== 0 || input.moveZ !== 0)
+          ? { sprint: input.sprint, normalizedX: input.moveX, normalizedZ: input.moveZ }
+          : null;
+
+      // Ledge grab: catch an edge in reach while airborne, then hang, shimmy or climb
+      const ledge = ledgeRef.current;
+      ledgeCooldown.current = Math.max(0, ledgeCooldown.current - delta);
+
+      const placeBody = (x: number, y: number, z: number) => {
+        setVelocity({ x: 0, y: 0, z: 0 });
+        if (isKinematic) rb.setNextKinematicTranslation({ x, y, z });
+        else rb.setTranslation({ x, y, z }, true);
+      };
+
+      if (
+        ledge.state === "none" &&
+        controls.ledgeGrabEnabled &&
+        !supported &&
+        !crouchNow &&
+        linvel.y < 1 &&
+        ledgeCooldown.current <= 0
+      ) {
+        const length = movement ? Math.hypot(movement.normalizedX, movement.normalizedZ) : 0;
+        const direction =
+          movement && length > 0
+            ? { x: movement.normalizedX / length, y: 0, z: movement.normalizedZ / length }
+            : { x: Math.sin(currentRotation.current), y: 0, z: Math.cos(currentRotation.current) };
+
+        const found = probeLedge(
+          rapier,
+          world,
+          rb,
+          translation,
+          direction,
+          CAPSULE_RADIUS,
+          controls.ledgeReach,
+          controls.ledgeMinHeight,
+          controls.ledgeMaxHeight
         );
-        modelRef.current.rotation.y = currentRotation.current;
+        if (found) {
+          ledge.state = "hanging";
+          ledge.point.copy(found.point);
+          ledge.normal.copy(found.normal);
+          isJumpingRef.current = false;
+          dashTimer.current = 0;
+        }
       }
 
-      // Handle movement
-      let movement = calculateMovement(input, controls.moveSpeed);
-
-      // Override keyboard movement with mobile joystick if active
-      if (Math.abs(mobileMovement.x) > 0 || Math.abs(mobileMovement.y) > 0) {
-        movement = {
-          sprint: false,
-          normalizedX: mobileMovement.x,
-          normalizedZ: mobileMovement.y,
+      let shimmyNow = 0;
+
+      if (ledge.state === "hanging") {
+        const n = ledge.normal;
+        // Right along the ledge when facing the wall
+        const tx = n.z;
+        const tz = -n.x;
+        const along = movement ? movement.normalizedX * tx + movement.normalizedZ * tz : 0;
+        const into = movement ? -(movement.normalizedX * n.x + movement.normalizedZ * n.z) : 0;
+
+        // Face the wall
+        let angleDiff = Math.atan2(-n.x, -n.z) - currentRotation.current;
+        angleDiff = Math.atan2(Math.sin(angleDiff), Math.cos(angleDiff));
+        targetRotation.current = currentRotation.current + angleDiff;
+
+        const climbTarget = {
+          x: ledge.point.x - n.x * (CAPSULE_RADIUS + 0.1),
+          y: ledge.point.y + 0.02,
+          z: ledge.point.z - n.z * (CAPSULE_RADIUS + 0.1),
         };
+
+        if (wantsCrouch || into < -0.5) {
+          // Let go
+          ledge.state = "none";
+          ledgeCooldown.current = 0.4;
+        } else if (
+          (jumpPressed || into > 0.5) &&
+          !probeCeiling(rapier, world, rb, climbTarget, CAPSULE_RADIUS, 2 * CAPSULE_RADIUS, STANDING_HEIGHT)
+        ) {
+          ledge.state = "climbing";
+          climbFrom.current.set(translation.x, translation.y, translation.z);
+          climbTo.current.set(climbTarget.x, climbTarget.y, climbTarget.z);
+          climbProgress.current = 0;
+          jumpBufferTimer.current = 0;
+        } else if (Math.abs(along) > 0.1) {
+          // Shimmy, re-probing from where we'd end up so we stop at the ledge's end
+          const step = Math.sign(along) * controls.shimmySpeed * delta;
+          const offset = CAPSULE_RADIUS + LEDGE_WALL_GAP;
+          const found = probeLedge(
+            rapier,
+            world,
+            rb,
+            {
+              x: ledge.point.x + tx * step + n.x * offset,
+              y: ledge.point.y - HANG_DEPTH,
+              z: ledge.point.z + tz * step + n.z * offset,
+            },
+            { x: -n.x, y: 0, z: -n.z },
+            CAPSULE_RADIUS,
+            controls.ledgeReach,
+            controls.ledgeMinHeight,
+            controls.ledgeMaxHeight
+          );
+          if (found) {
+            ledge.point.copy(found.point);
+            ledge.normal.copy(found.normal);
+            shimmyNow = Math.sign(along);
+          }
+        }
+
+        if (ledge.state === "hanging") {
+          const offset = CAPSULE_RADIUS + LEDGE_WALL_GAP;
+          placeBody(
+            ledge.point.x + ledge.normal.x * offset,
+            ledge.point.y - HANG_DEPTH,
+            ledge.point.z + ledge.normal.z * offset
+          );
+        }
+      }
+
+      // Still holding on this frame, even if the climb finishes below
+      const holdingLedge = ledge.state !== "none";
+
+      if (ledge.state === "climbing") {
+        // Pull up first, then move over the edge
+        climbProgress.current = Math.min(1, climbProgress.current + delta / controls.climbDuration);
+        const t = climbProgress.current;
+        const from = climbFrom.current;
+        const to = climbTo.current;
+        const rise = Math.min(1, t / CLIMB_RISE_PORTION);
+        const over = Math.max(0, (t - CLIMB_RISE_PORTION) / (1 - CLIMB_RISE_PORTION));
+
+        placeBody(
+          MathUtils.lerp(from.x, to.x, over),
+          MathUtils.lerp(from.y, to.y, rise),
+          MathUtils.lerp(from.z, to.z, over)
+        );
+
+        if (t >= 1) {
+          ledge.state = "none";
+          timeSinceGrounded.current = Infinity;
+        }
+      }
+
+      if (ledge.state !== ledgeStateRef.current) {
+        ledgeStateRef.current = ledge.state;
+        setLedgeState(ledge.state);
+      }
+      if (shimmyNow !== shimmyDirectionRef.current) {
+        shimmyDirectionRef.current = shimmyNow;
+        setShimmyDirection(shimmyNow);
+      }
+
+      // The ledge owns the body while hanging or climbing
+      if (holdingLedge) return;
+
+      // Swimming: steer horizontally, rise on jump, dive on crouch and float at the
+      // surface otherwise. Jumping at the surface kicks up out of the water.
+      if (swimmingNow) {
+        const atSurface = water.depth <= controls.swimFloatDepth + 0.1;
+
+        if (jumpPressed && atSurface) {
+          const lv = getVelocity();
+          const impulse = createJumpImpulse(controls.jumpForce, { y: 0 });
+          setVelocity({ x: lv.x, y: impulse.y / CHARACTER_MASS, z: lv.z });
+          isJumpingRef.current = true;
+          jumpCut.current = false;
+          jumpBufferTimer.current = 0;
+        } else {
+          let targetY = MathUtils.clamp(
+            (water.depth - controls.swimFloatDepth) * 2,
+            -controls.swimVerticalSpeed,
+            controls.swimVerticalSpeed
+          );
+          if (shouldJump && !atSurface) targetY = controls.swimVerticalSpeed;
+          else if (wantsCrouch) targetY = -controls.swimVerticalSpeed;
+
+          const targetX = movement ? movement.normalizedX * controls.swimSpeed : 0;
+          const targetZ = movement ? movement.normalizedZ * controls.swimSpeed : 0;
+
+          // Water drag eases us toward the target velocity
+          const lv = getVelocity();
+          setVelocity({
+            x: MathUtils.damp(lv.x, targetX, water.drag, delta),
+            y: MathUtils.damp(lv.y, targetY, water.drag, delta),
+            z: MathUtils.damp(lv.z, targetZ, water.drag, delta),
+          });
+        }
+
+        moveKinematic(false);
+        return;
       }
 
-      if (movement) {
-        const sprintMultiplier = movement.sprint ? controls.sprintMultiplier : 1;
-        const moveForce = controls.moveSpeed * (groundedNow ? 1 : controls.airControl);
+      // Dash: lock in the facing direction and hold a fixed speed for its duration
+      if (standing) airDashesUsed.current = 0;
+
+      if (
+        dashPressed &&
+        dashTimer.current <= 0 &&
+        dashCooldownTimer.current <= 0 &&
+        !crouchNow &&
+        (standing || airDashesUsed.current < controls.maxAirDashes)
+      ) {
+        if (!standing) airDashesUsed.current += 1;
+        dashDirection.current.set(
+          Math.sin(currentRotation.current),
+          0,
+          Math.cos(currentRotation.current)
+        );
+        dashTimer.current = controls.dashDuration;
+        dashCooldownTimer.current = controls.dashDuration + controls.dashCooldown;
+        invulnerableTimer.current = controls.dashInvulnerability;
+      }
+
+      const dashingNow = dashTimer.current > 0;
+      if (dashingNow) {
+        const lv = getVelocity();
+        const dir = dashDirection.current;
+        // Air dashes hold altitude, unless we jump out of one
+        setVelocity({
+          x: dir.x * controls.dashSpeed,
+          y: standing || isJumpingRef.current ? lv.y : 0,
+          z: dir.z * controls.dashSpeed,
+        });
+      }
+
+      if (dashingNow !== isDashingRef.current) {
+        isDashingRef.current = dashingNow;
+        setIsDashing(dashingNow);
+      }
+
+      if (movement && wallJumpLock.current <= 0 && !dashingNow) {
+        const sprintMultiplier = movement.sprint && !crouchNow ? controls.sprintMultiplier : 1;
+        const crouchMultiplier = crouchNow ? controls.crouchSpeedMultiplier : 1;
+        const landingMultiplier =
+          landingTimer.current > 0
+            ? 1 - landingSlowdown.current * (landingTimer.current / controls.landingRecoveryTime)
+            : 1;
+        const moveForce =
+          controls.moveSpeed *
+          (groundedNow ? 1 : controls.airControl) *
+          crouchMultiplier *
+          landingMultiplier;
 
         const velocity = createMovementVelocity(
           movement.normalizedX,
@@ -170,28 +1184,215 @@ export const CharacterController = React.forwardRef<any, CharacterControllerProp
 
         // Smooth out velocity changes when grounded
         if (groundedNow) {
-          const smoothing = 0.25;
-          velocity.x = velocity.x * smoothing + linvel.x * (1 - smoothing);
-          velocity.z = velocity.z * smoothing + linvel.z * (1 - smoothing);
+          velocity.x = MathUtils.damp(linvel.x, velocity.x, GROUND_VELOCITY_RATE, delta);
+          velocity.z = MathUtils.damp(linvel.z, velocity.z, GROUND_VELOCITY_RATE, delta);
+        }
+
+        // Follow the ground plane; Rapier's controller does this itself in kinematic mode
+        if (!isKinematic && groundedNow && !isJumpingRef.current) {
+          const fitted = projectOnGround(velocity, ground.normal, !onSteepSlope);
+          velocity.x = fitted.x;
+          velocity.z = fitted.z;
+          if (supported) velocity.y = fitted.y;
+        }
+
+        setVelocity(velocity);
+      } else if ((isKinematic || onPlatform) && !dashingNow) {
+        // No drag to slow a kinematic body (or one riding a platform) down: ease to a stop ourselves
+        const lv = getVelocity();
+        const rate = groundedNow ? GROUND_VELOCITY_RATE : AIR_STOP_RATE;
+        setVelocity({
+          x: MathUtils.damp(lv.x, 0, rate, delta),
+          y: lv.y,
+          z: MathUtils.damp(lv.z, 0, rate, delta),
+        });
+      }
+
+      // Step up onto small ledges and stairs instead of stalling against them
+      if (!isKinematic && supported && movement && controls.maxStepHeight > 0) {
+        const length = Math.hypot(movement.normalizedX, movement.normalizedZ);
+        const stepHeight = probeStep(
+          rapier,
+          world,
+          rb,
+          translation,
+          { x: movement.normalizedX / length, y: 0, z: movement.normalizedZ / length },
+          CAPSULE_RADIUS,
+          controls.maxStepHeight,
+          controls.minStepDepth
+        );
+
+        if (stepHeight !== null) {
+          // A one-off lift, not per-frame snapping
+          rb.setTranslation(
+            { x: translation.x, y: translation.y + stepHeight + 0.01, z: translation.z },
+            true
+          );
+          const lv = getVelocity();
+          if (lv.y < 0) setVelocity({ x: lv.x, y: 0, z: lv.z });
+          stepOffset.current += stepHeight;
+        }
+      }
+
+      // Gentle "stick to ground" clamp, avoids micro upward bumps on slopes.
+      // Walking uphill may still rise as fast as the slope requires.
+      if (supported) {
+        const lv = getVelocity();
+        const maxRise = isKinematic ? 0 : Math.max(0, projectOnGround(lv, ground.normal, true).y);
+        if (lv.y > maxRise) setVelocity({ x: lv.x, y: maxRise, z: lv.z });
+      }
+
+      // Steep slope: gravity pulls the character down along the surface
+      if (!isKinematic && slidingNow) {
+        const lv = getVelocity();
+        const slide = createSlideVelocity(ground.normal, delta);
+        setVelocity({ x: lv.x + slide.x, y: lv.y + slide.y, z: lv.z + slide.z });
+      }
+
+      // Handle jumping: a buffered press within coyote time. The impulse is
+      // applied as a velocity change so both modes jump the same height.
+      if (
+        jumpBufferTimer.current > 0 &&
+        timeSinceGrounded.current <= controls.coyoteTime &&
+        !crouchNow
+      ) {
+        const lv = getVelocity();
+        const impulse = createJumpImpulse(controls.jumpForce, { y: 0 });
+        setVelocity({ x: lv.x, y: impulse.y / CHARACTER_MASS, z: lv.z });
+
+        jumpBufferTimer.current = 0;
+        timeSinceGrounded.current = Infinity;
+        isJumpingRef.current = true;
+        jumpCut.current = false;
+        jumpsUsed.current = 1;
+      }
+
+      // Variable jump height: releasing jump while rising cuts the ascent once
+      if (isJumpingRef.current && !shouldJump && !jumpCut.current) {
+        const lv = getVelocity();
+        if (lv.y > 0) setVelocity({ x: lv.x, y: lv.y * controls.jumpCutMultiplier, z: lv.z });
+        jumpCut.current = true;
+      }
+
+      // Heavier gravity on descent, capped at a terminal fall speed
+      if (!supported) {
+        const lv = getVelocity();
+        if (lv.y < 0) {
+          const vy = Math.max(
+            lv.y + createFallForce(controls.fallMultiplier, delta).y,
+            -controls.maxFallSpeed
+          );
+          setVelocity({ x: lv.x, y: vy, z: lv.z });
         }
+      }
+
+      // Walls: kick off on a jump press, slide down slowly while pressing in
+      const wall = probeWall(
+        rapier,
+        world,
+        rb,
+        translation,
+        CAPSULE_RADIUS,
+        crouchNow ? controls.crouchHeight : STANDING_HEIGHT,
+        controls.wallProbeDistance,
+        wallRef.current
+      );
+      const onWall = wall.touching && !standing;
+
+      if (onWall && jumpBufferTimer.current > 0) {
+        const impulse = createJumpImpulse(controls.wallJumpForce, { y: 0 });
+        setVelocity({
+          x: wall.normal.x * controls.wallJumpPush,
+          y: impulse.y / CHARACTER_MASS,
+          z: wall.normal.z * controls.wallJumpPush,
+        });
+
+        jumpBufferTimer.current = 0;
+        timeSinceGrounded.current = Infinity;
+        isJumpingRef.current = true;
+        jumpCut.current = false;
+        wallJumpLock.current = controls.wallJumpLockTime;
+        // Kicking off a wall gives the air jumps back
+        jumpsUsed.current = 1;
+      }
+
+      // Air jumps: each one weaker than the last by airJumpForceScale
+      if (
+        jumpBufferTimer.current > 0 &&
+        !standing &&
+        timeSinceGrounded.current > controls.coyoteTime &&
+        jumpsUsed.current < controls.maxJumps
+      ) {
+        const scale = Math.pow(controls.airJumpForceScale, jumpsUsed.current);
+        const impulse = createJumpImpulse(controls.jumpForce * scale, { y: 0 });
+        const lv = getVelocity();
+        setVelocity({ x: lv.x, y: impulse.y / CHARACTER_MASS, z: lv.z });
+
+        jumpsUsed.current += 1;
+        jumpBufferTimer.current = 0;
+        isJumpingRef.current = true;
+        jumpCut.current = false;
 
-        rb.setLinvel(velocity, true);
+        onAirJump?.({
+          jumpNumber: jumpsUsed.current,
+          position: new Vector3(translation.x, translation.y, translation.z),
+        });
       }
 
-      // Gentle "stick to ground" clamp, avoids micro upward bumps on slopes
-      if (groundedNow && !shouldJump) {
-        const lv = rb.linvel();
-        if (lv.y > 0) rb.setLinvel({ x: lv.x, y: 0, z: lv.z }, true);
+      const airJumpsNow = standing ? 0 : Math.max(0, jumpsUsed.current - 1);
+      if (airJumpsNow !== airJumpCountRef.current) {
+        airJumpCountRef.current = airJumpsNow;
+        setAirJumpCount(airJumpsNow);
+      }
+
+      if (isJumpingRef.current !== isRisingRef.current) {
+        isRisingRef.current = isJumpingRef.current;
+        setIsRising(isJumpingRef.current);
+      }
+
+      const pressingIntoWall =
+        !!movement &&
+        -(movement.normalizedX * wall.normal.x + movement.normalizedZ * wall.normal.z) > 0.3;
+
+      let wallSlidingNow = false;
+      if (controls.wallSlideEnabled && onWall && pressingIntoWall && wallJumpLock.current <= 0) {
+        const lv = getVelocity();
+        if (lv.y < 0) {
+          wallSlidingNow = true;
+          if (lv.y < -controls.wallSlideSpeed) {
+            setVelocity({ x: lv.x, y: -controls.wallSlideSpeed, z: lv.z });
+          }
+
+          // Face the wall
+          let angleDiff = Math.atan2(-wall.normal.x, -wall.normal.z) - currentRotation.current;
+          angleDiff = Math.atan2(Math.sin(angleDiff), Math.cos(angleDiff));
+          targetRotation.current = currentRotation.current + angleDiff;
+        }
       }
 
-      // Handle jumping (dynamic friendly)
-      if (shouldJump && groundedNow) {
-        rb.setLinvel({ x: linvel.x, y: 0, z: linvel.z }, true);
-        rb.applyImpulse(createJumpImpulse(controls.jumpForce, { y: linvel.y }), true);
+      if (wallSlidingNow !== isWallSlidingRef.current) {
+        isWallSlidingRef.current = wallSlidingNow;
+        setIsWallSliding(wallSlidingNow);
       }
 
       // Note: removed kinematic-style ground snapping (setTranslation + snap impulse)
       // Dynamic bodies should not be teleported each frame.
+
+      // Kinematic: integrate gravity, then let Rapier resolve the move
+      moveKinematic(true);
+    });
+
+    // Rendering: ease the model between the last two ticks' facing, and out of step-ups
+    useFrame((_, delta) => {
+      const model = modelRef.current;
+      if (!model) return;
+
+      sinceTick.current += delta;
+      const alpha = Math.min(1, sinceTick.current / world.timestep);
+      model.rotation.y = MathUtils.lerp(previousRotation.current, currentRotation.current, alpha);
+
+      stepOffset.current = MathUtils.damp(stepOffset.current, 0, STEP_OFFSET_RATE, delta);
+      model.position.y = -stepOffset.current;
     });
 
     // Expose position to camera/controller systems
@@ -199,31 +1400,151 @@ export const CharacterController = React.forwardRef<any, CharacterControllerProp
       ref,
       () => ({
         position: {
+          // The rendered (interpolated) body position, so followers move smoothly
           clone: () => {
+            const body = modelRef.current?.parent;
+            if (body) return body.getWorldPosition(new Vector3());
             const t = rigidBody.current?.translation();
             return new Vector3(t?.x || 0, t?.y || 0, t?.z || 0);
           },
         },
+        get rigidBody() {
+          return rigidBody.current;
+        },
+        get object() {
+          return modelRef.current;
+        },
+        get ground() {
+          return groundRef.current;
+        },
+        get ledge() {
+          return ledgeRef.current;
+        },
+        get isInvulnerable() {
+          return invulnerableTimer.current > 0;
+        },
+        get isStunned() {
+          return stunTimer.current > 0 || getUpTimer.current > 0;
+        },
+        get isRagdoll() {
+          return isRagdollRef.current;
+        },
+        get health() {
+          return health;
+        },
+        get respawnCount() {
+          return respawnCount.current;
+        },
+        applyKnockback: (direction, strength, damage) => {
+          const d = new Vector3(direction.x, direction.y, direction.z);
+          if (d.lengthSq() < 1e-8 || strength <= 0) return;
+          pendingKnockback.current.addScaledVector(d.normalize(), strength);
+          if (damage !== undefined) pendingDamage.current += Math.max(0, damage);
+          else pendingHitSpeed.current += strength;
+        },
+        get isRecording() {
+          return recording.current !== null || pendingSession.current?.kind === "record";
+        },
+        get isReplaying() {
+          return replaying.current !== null || pendingSession.current?.kind === "replay";
+        },
+        startRecording: () => {
+          replaying.current?.done();
+          replaying.current = null;
+          pendingSession.current = { kind: "record" };
+        },
+        stopRecording: () => {
+          const recorded = recording.current;
+          recording.current = null;
+          if (pendingSession.current?.kind === "record") pendingSession.current = null;
+          return recorded;
+        },
+        playReplay: (replay) => {
+          if (replay.mode !== mode) {
+            return Promise.reject(new Error(`Replay was recorded in ${replay.mode} mode, not ${mode}`));
+          }
+          if (Math.abs(replay.timeStep - world.timestep) > 1e-6) {
+            return Promise.reject(
+              new Error(`Replay was recorded at a ${replay.timeStep}s timestep, not ${world.timestep}s`)
+            );
+          }
+
+          replaying.current?.done();
+          replaying.current = null;
+          recording.current = null;
+          return new Promise<void>((resolve) => {
+            pendingSession.current = { kind: "replay", replay, done: resolve };
+          });
+        },
+        stopReplay: () => {
+          const session = pendingSession.current;
+          if (session?.kind === "replay") {
+            pendingSession.current = null;
+            session.done();
+          }
+          replaying.current?.done();
+          replaying.current = null;
+        },
       }),
-      []
+      [health, mode, world]
     );
 
+    // Hard hits from dynamic bodies (e.g. a fast ball) knock us away from them
+    const handleContactForce = (payload: ContactForcePayload) => {
+      const other = payload.other.rigidBody;
+      const body = rigidBody.current;
+      if (!other || !body || !other.isDynamic()) return;
+      if (payload.totalForceMagnitude < controls.impactForceThreshold) return;
+
+      const t = body.translation();
+      const o = other.translation();
+      const away = new Vector3(t.x - o.x, 0, t.z - o.z);
+      if (away.lengthSq() < 1e-6) {
+        const v = other.linvel();
+        away.set(v.x, 0, v.z);
+      }
+      if (away.lengthSq() < 1e-6) return;
+
+      const strength = Math.min(
+        controls.maxKnockbackSpeed,
+        payload.totalForceMagnitude * controls.impactKnockbackScale
+      );
+      pendingKnockback.current.addScaledVector(away.normalize(), strength);
+      pendingHitSpeed.current += strength;
+    };
+
+
+
+    // Only report contacts hard enough to count as hits
+    useEffect(() => {
+      collider.current?.setContactForceEventThreshold(controls.impactForceThreshold);
+    }, [controls.impactForceThreshold]);
 
+    // The collider's props describe the standing capsule. Re-fit after a new
+    // crouch height, or after toggling the sensor, which makes the collider
+    // reapply its JSX position.
+    useEffect(() => {
+      fitCapsule(collider.current, isCrouchingRef.current, controls.crouchHeight);
+    }, [controls.crouchHeight, isRagdoll]);
 
     return (
       <RigidBody
         ref={rigidBody}
         colliders={false}
-        position={[0, 0.25, 1]} // spawn slightly above ground
-        mass={50}
+        position={SPAWN_POSITION} // spawn slightly above ground
         lockRotations
-        type="dynamic"
+        userData={{ character: true }}
+        type={isKinematic || isRagdoll ? "kinematicPosition" : "dynamic"}
       >
         {/* CapsuleCollider uses `position`, not `offset` */}
         <CapsuleCollider
-          args={[0.8, 0.4]}
-          position={[0, 1.2, 0]}
-          collisionGroups={0x00040003}
+          ref={collider}
+          args={[CAPSULE_HALF_HEIGHT, CAPSULE_RADIUS]}
+          position={[0, CAPSULE_HALF_HEIGHT + CAPSULE_RADIUS, 0]}
+          collisionGroups={CHARACTER_COLLISION_GROUPS}
+          onContactForce={handleContactForce}
+          // Ragdoll parts take over collisions while it's active
+          sensor={isRagdoll}
         />
 
         {/* Start with scale=1 for calibration */}
@@ -233,6 +1554,22 @@ export const CharacterController = React.forwardRef<any, CharacterControllerProp
             isMoving={isMoving}
             isSprinting={isSprinting}
             isGrounded={isGrounded}
+            isSliding={isSliding}
+            isCrouching={isCrouching}
+            ledgeState={ledgeState}
+            shimmyDirection={shimmyDirection}
+            isWallSliding={isWallSliding}
+            isDashing={isDashing}
+            airJumpCount={airJumpCount}
+            isRising={isRising}
+            isSwimming={isSwimming}
+            hitReaction={hitReaction}
+            landing={landing}
+            ragdoll={ragdollRef}
+            isGettingUp={isGettingUp}
+            ledge={ledgeRef}
+            ground={groundRef}
+            velocity={relativeVelocity}
             rigidBody={rigidBody}
             ttsAudioRef={ttsAudioRef}
           />
@@ -11,14 +11,79 @@ import * as THREE from "three";
 import { FaceManager } from "../utils/FaceManager";
 import { useMaximoClips } from "../hooks/useMaximoClips";
 import { useAvatarLipSync } from "../hooks/useAvatarLipSync";
+import { useLedgeHandIK } from "../hooks/useLedgeHandIK";
+import { useRagdoll, type RagdollState } from "../hooks/useRagdoll";
+import { BlendSpace1D, type BlendSample } from "../utils/BlendSpace1D";
+import {
+  createCharacterAnimationMachine,
+  type CharacterAnimationContext,
+} from "../utils/characterAnimations";
+import type { GroundInfo, LedgeGrab } from "../utils/probes";
 
 // ---- Debug flag ----
 const DEBUG_AVATAR = true;
 
+// How far (radians per unit of slope gradient) the body leans into slopes
+const SLOPE_LEAN = 0.5;
+
+// Rate (1/s) at which the ground speed driving locomotion blending follows the body
+const SPEED_SMOOTHING = 10;
+
+// Seconds a reported landing stays eligible to start a landing state
+const LANDING_WINDOW = 0.15;
+
+// Front flip played on air jumps when there is no air jump clip
+const FLIP_DURATION = 0.45;
+const FLIP_PIVOT_HEIGHT = 0.9; // roughly the hips, so the flip turns about the body's centre
+
+// How far (radians) a hit throws the body when there is no hit reaction clip
+const FLINCH_ANGLE = 0.35;
+
+export type HitReaction = {
+  /** Side the hit came from, relative to the character's facing */
+  from: "front" | "back" | "left" | "right";
+  /** When it happened; a new value plays the reaction again */
+  time: number;
+};
+
+export type Landing = {
+  /** Hard landings come down at least the controller's hardLandingHeight below take-off */
+  impact: "soft" | "hard";
+  /** Downward speed at touchdown, m/s */
+  speed: number;
+  /** When it happened; a new value plays the landing */
+  time: number;
+};
+
 type CharacterModelProps = {
   isMoving: boolean;
   isSprinting: boolean;
   isGrounded: boolean;
+  isSliding?: boolean;
+  isCrouching?: boolean;
+  ledgeState?: LedgeGrab["state"];
+  /** -1 shimmying left, 1 right, 0 still */
+  shimmyDirection?: number;
+  isWallSliding?: boolean;
+  isDashing?: boolean;
+  /** Air jumps made since leaving the ground; each increase starts a flip */
+  airJumpCount?: number;
+  /** Rising from a jump, for the take-off */
+  isRising?: boolean;
+  /** Latest landing, played as a soft or hard landing phase */
+  landing?: Landing | null;
+  isSwimming?: boolean;
+  /** Latest hit, played as a one-shot layer over the current animation */
+  hitReaction?: HitReaction | null;
+  /** Ragdoll switch and pelvis feedback, shared with the controller */
+  ragdoll?: React.RefObject<RagdollState>;
+  isGettingUp?: boolean;
+  /** Held ledge, for placing the hands */
+  ledge?: React.RefObject<LedgeGrab>;
+  /** Live ground probe from the controller, read every frame for slope lean */
+  ground?: React.RefObject<GroundInfo>;
+  /** Live velocity relative to any moving platform, driving locomotion and jump phases */
+  velocity?: React.RefObject<Vector3>;
   avatarUrl?: string;
   rigidBody?: React.RefObject<any>;
   ttsAudioRef?: React.RefObject<HTMLAudioElement>;
@@ -40,7 +105,7 @@ function buildAvatarUrl(baseUrl: string): string {
 }
 
 function resolveAction(
-  actions: Record<string, AnimationAction | undefined>,
+  actions: Record<string, AnimationAction | null | undefined>,
   keywords: string[]
 ): { name: string; action: AnimationAction } | null {
   for (const [name, action] of Object.entries(actions)) {
@@ -55,12 +120,33 @@ export function CharacterModel({
   isMoving,
   isSprinting,
   isGrounded,
+  isSliding = false,
+  isCrouching = false,
+  ledgeState = "none",
+  shimmyDirection = 0,
+  isWallSliding = false,
+  isDashing = false,
+  airJumpCount = 0,
+  isRising = false,
+  landing = null,
+  isSwimming = false,
+  hitReaction = null,
+  ragdoll,
+  isGettingUp = false,
+  ledge,
+  ground,
+  velocity,
   avatarUrl,
   rigidBody,
   ttsAudioRef,
   ...props
 }: CharacterModelProps) {
   const group = useRef<Group>(null);
+  const flipGroup = useRef<Group>(null);
+  const flipTime = useRef(Infinity);
+  const leanAngle = useRef(0);
+  const flinch = useRef({ x: 0, z: 0 });
+  const hitAction = useRef<AnimationAction | null>(null);
 
   const [current, setCurrent] = useState<{
     name: string;
@@ -72,6 +158,16 @@ export function CharacterModel({
     action: AnimationAction;
   } | null>(null);
 
+  // Every action the current state plays, and its blend space if it has one
+  const playing = useRef<AnimationAction[]>([]);
+  const blend = useRef<{
+    space: BlendSpace1D;
+    actions: AnimationAction[];
+    param: (ctx: CharacterAnimationContext) => number;
+  } | null>(null);
+  const speed = useRef(0);
+  const landingAge = useRef(Infinity);
+
   const faceRef = useRef(
     new FaceManager({
       blink: { minInterval: 2.5, maxInterval: 6.0, speed: 12, intensity: 1.0 },
@@ -85,6 +181,8 @@ export function CharacterModel({
 
   const lookTarget = useRef(new Vector3());
 
+  const animations = useMemo(createCharacterAnimationMachine, []);
+
   const resolvedAvatarUrl = useMemo(() => {
     const base = avatarUrl?.trim() ? avatarUrl.trim() : DEFAULT_RPM_MODEL_URL;
     return buildAvatarUrl(base);
@@ -94,13 +192,18 @@ export function CharacterModel({
 
   const { mappedClips } = useMaximoClips(avatar.scene);
   const { actions } = useAnimations(mappedClips, avatar.scene);
+  useLedgeHandIK(avatar.scene, ledge);
+  useRagdoll(avatar.scene, ragdoll);
 
   useEffect(() => {
     if (!actions) return;
     Object.values(actions).forEach((a) => a?.stop());
     currentRef.current = null;
     setCurrent(null);
-  }, [resolvedAvatarUrl, actions]);
+    playing.current = [];
+    blend.current = null;
+    animations.reset();
+  }, [resolvedAvatarUrl, actions, animations]);
 
   useEffect(() => {
     avatar.scene.traverse((child: any) => {
@@ -121,46 +224,204 @@ export function CharacterModel({
     faceRef.current.update(delta, lookTarget.current);
   }, 1);
 
-  const prevGrounded = useRef<boolean>(isGrounded);
+  // Lean forward walking uphill, back walking downhill, and recoil from hits
+  useFrame((_, delta) => {
+    const g = ground?.current;
+    if (!group.current) return;
+
+    let lean = 0;
+    if (g?.grounded) {
+      // The controller yaws our parent to face the direction of travel
+      const yaw = group.current.parent?.rotation.y ?? 0;
+      lean = -(g.normal.x * Math.sin(yaw) + g.normal.z * Math.cos(yaw)) * SLOPE_LEAN;
+    }
+    leanAngle.current = MathUtils.damp(leanAngle.current, lean, 8, delta);
+    flinch.current.x = MathUtils.damp(flinch.current.x, 0, 6, delta);
+    flinch.current.z = MathUtils.damp(flinch.current.z, 0, 6, delta);
+    group.current.rotation.x = leanAngle.current + flinch.current.x;
+    group.current.rotation.z = flinch.current.z;
+  });
+
+  // Hits: a one-shot clip over the current state, or a procedural flinch without one
+  useEffect(() => {
+    if (!hitReaction) return;
+
+    const clip = actions ? resolveAction(actions, [`hit${hitReaction.from}`]) : null;
+    if (!clip) {
+      // Throw the upper body away from the side that was hit
+      const { from } = hitReaction;
+      flinch.current.x = from === "front" ? -FLINCH_ANGLE : from === "back" ? FLINCH_ANGLE : 0;
+      flinch.current.z = from === "right" ? -FLINCH_ANGLE : from === "left" ? FLINCH_ANGLE : 0;
+      return;
+    }
+
+    if (hitAction.current && hitAction.current !== clip.action) hitAction.current.fadeOut(0.1);
+    clip.action.setLoop(THREE.LoopOnce, 1);
+    clip.action.reset().fadeIn(0.05).play();
+    hitAction.current = clip.action;
+  }, [actions, hitReaction]);
+
+  useFrame(() => {
+    const action = hitAction.current;
+    if (!action) return;
+    // Blend back out just before the clip ends
+    if (action.time >= action.getClip().duration - 0.2) {
+      action.fadeOut(0.2);
+      hitAction.current = null;
+    }
+  });
+
+  // Air jumps: restart the air jump clip, or flip procedurally without one
+  const prevAirJumpCount = useRef(airJumpCount);
   useEffect(() => {
-    if (prevGrounded.current === false && isGrounded === true) {
-      faceRef.current.onLand();
+    if (airJumpCount > prevAirJumpCount.current) {
+      const clip = actions ? resolveAction(actions, ["airjump"]) : null;
+      if (clip) {
+        // Entering the airJump state starts it; later jumps restart it mid-air
+        if (currentRef.current?.name === clip.name) clip.action.reset().play();
+      } else {
+        flipTime.current = 0;
+      }
     }
-    prevGrounded.current = isGrounded;
-  }, [isGrounded]);
+    prevAirJumpCount.current = airJumpCount;
+  }, [actions, airJumpCount]);
 
+  useFrame((_, delta) => {
+    if (!flipGroup.current) return;
+    flipTime.current += delta;
+    const t = Math.min(1, flipTime.current / FLIP_DURATION);
+    // Ease out so the spin snaps round and settles before landing
+    flipGroup.current.rotation.x = t < 1 ? Math.PI * 2 * (1 - Math.pow(1 - t, 3)) : 0;
+  });
+
+  // Landings: start the landing phase and let the face react
   useEffect(() => {
+    if (!landing) return;
+    landingAge.current = 0;
+    faceRef.current.onLand();
+  }, [landing]);
+
+  // States and transitions live in characterAnimations.ts; each frame the
+  // machine reads the controller state and we play whichever state it picks
+  const animationContext = useRef<CharacterAnimationContext>(null!);
+  animationContext.current = {
+    isMoving,
+    isSprinting,
+    isGrounded,
+    isSliding,
+    isCrouching,
+    ledgeState,
+    shimmyDirection,
+    isWallSliding,
+    isDashing,
+    airJumpCount,
+    isSwimming,
+    isGettingUp,
+    isRising,
+    speed: speed.current,
+    verticalSpeed: 0,
+    landing: null,
+  };
+
+  useFrame((_, delta) => {
     if (!actions || Object.keys(actions).length === 0) return;
 
-    const next =
-      !isGrounded
-        ? resolveAction(actions as any, ["fall", "falling"])
-        : !isMoving
-          ? resolveAction(actions as any, ["idle"])
-          : isSprinting
-            ? resolveAction(actions as any, ["run", "running"])
-            : resolveAction(actions as any, ["walk", "walking"]);
+    const v = velocity?.current;
+    speed.current = MathUtils.damp(speed.current, v ? Math.hypot(v.x, v.z) : 0, SPEED_SMOOTHING, delta);
 
-    if (!next) return;
+    landingAge.current += delta;
 
-    const cur = currentRef.current;
+    const ctx = animationContext.current;
+    ctx.speed = speed.current;
+    ctx.verticalSpeed = v?.y ?? 0;
+    ctx.landing = landing && landingAge.current < LANDING_WINDOW ? landing.impact : null;
+    const change = animations.update(ctx, delta);
+    const state = animations.current;
+    if (!state) return;
 
-    if (cur && cur.name === next.name) {
-      next.action.timeScale = isSprinting ? 1.25 : 1;
-      if (!next.action.isRunning()) next.action.play();
-      return;
-    }
+    if (change) {
+      // Blend spaces use whichever of their clips loaded, else the state's clips
+      const samples = (state.blendSpace?.samples ?? [])
+        .map((sample) => ({ sample, clip: resolveAction(actions, sample.clip) }))
+        .filter((s): s is { sample: BlendSample; clip: { name: string; action: AnimationAction } } => !!s.clip);
 
-    next.action.reset();
-    next.action.timeScale = isSprinting ? 1.25 : 1;
-    next.action.play();
+      let next: { name: string; action: AnimationAction }[] = [];
+      let fallback = false;
+      if (state.blendSpace && samples.length > 0) {
+        next = samples.map((s) => s.clip);
+      } else {
+        for (const keywords of state.clips) {
+          const clip = resolveAction(actions, keywords);
+          if (clip) {
+            next = [clip];
+            break;
+          }
+          fallback = true;
+        }
+      }
+      if (next.length === 0) return;
 
-    if (cur?.action) cur.action.crossFadeTo(next.action, 0.15, true);
-    else next.action.fadeIn(0.15);
+      const nextActions = next.map((c) => c.action);
+      for (const action of playing.current) {
+        if (!nextActions.includes(action)) action.fadeOut(change.blend);
+      }
 
-    currentRef.current = next;
-    setCurrent(next);
-  }, [actions, isMoving, isSprinting, isGrounded]);
+      for (const { action } of next) {
+        // Set both ways, since states share clips; fallbacks keep looping as they normally do
+        if (state.loop === "once" && !fallback) {
+          action.setLoop(THREE.LoopOnce, 1);
+          action.clampWhenFinished = true;
+        } else {
+          action.setLoop(THREE.LoopRepeat, Infinity);
+          action.clampWhenFinished = false;
+        }
+        action.weight = 1;
+
+        // A clip the last state was already playing carries on without a restart
+        if (playing.current.includes(action)) {
+          if (!action.isRunning()) action.play();
+          continue;
+        }
+        action.reset();
+        action.play();
+        action.fadeIn(change.blend);
+      }
+
+      playing.current = nextActions;
+      blend.current =
+        state.blendSpace && samples.length > 0
+          ? {
+              space: new BlendSpace1D(samples.map((s) => s.sample)),
+              actions: nextActions,
+              param: state.blendSpace.param,
+            }
+          : null;
+
+      const single = blend.current ? null : next[0];
+      currentRef.current = single;
+      setCurrent(single);
+    }
+
+    if (blend.current) {
+      // Weight clips by the parameter and hold the synced ones on the shared phase
+      const { space, actions: blended, param } = blend.current;
+      space.update(param(ctx), delta, blended.map((a) => a.getClip().duration));
+      space.samples.forEach((sample, i) => {
+        const action = blended[i];
+        action.weight = space.weights[i];
+        if (sample.sync) {
+          action.timeScale = 0;
+          action.time = space.phase * action.getClip().duration;
+        } else {
+          action.timeScale = 1;
+        }
+      });
+      return;
+    }
+
+    const timeScale = typeof state.timeScale === "function" ? state.timeScale(ctx) : state.timeScale ?? 1;
+    for (const action of playing.current) action.timeScale = timeScale;
+  });
 
   // ---- Lip sync (moved out) ----
   useAvatarLipSync({
@@ -172,7 +433,9 @@ export function CharacterModel({
 
   return (
     <group ref={group} {...props}>
-      <primitive object={avatar.scene} />
+      <group ref={flipGroup} position={[0, FLIP_PIVOT_HEIGHT, 0]}>
+        <primitive object={avatar.scene} position={[0, -FLIP_PIVOT_HEIGHT, 0]} />
+      </group>
     </group>
   );
 }
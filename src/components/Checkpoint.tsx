@@ -0,0 +1,41 @@
+import { useMemo } from 'react';
+import { Vector3 } from 'three';
+import { CuboidCollider, RigidBody } from '@react-three/rapier';
+import type { CheckpointProperties } from '../utils/probes';
+
+type CheckpointProps = {
+  id: string;
+  /** Centre of the pad on the ground, world space; also the respawn point */
+  position: [number, number, number];
+  /** Facing after respawning here, radians */
+  yaw?: number;
+  size?: [number, number, number];
+  color?: string;
+};
+
+/**
+ * Sensor volume the character controller records as its respawn point when
+ * the feet enter it. Tagged with `CheckpointProperties` in userData.
+ */
+export function Checkpoint({
+  id,
+  position,
+  yaw = 0,
+  size = [2, 2, 2],
+  color = '#facc15'
+}: CheckpointProps) {
+  const checkpoint = useMemo<CheckpointProperties>(
+    () => ({ id, spawn: new Vector3(...position), yaw }),
+    [id, position, yaw]
+  );
+
+  return (
+    <RigidBody type="fixed" colliders={false} position={position} userData={{ checkpoint }}>
+      <CuboidCollider args={[size[0] / 2, size[1] / 2, size[2] / 2]} position={[0, size[1] / 2, 0]} sensor />
+      <mesh rotation={[-Math.PI / 2, 0, 0]} position={[0, 0.02, 0]} receiveShadow>
+        <ringGeometry args={[Math.min(size[0], size[2]) * 0.3, Math.min(size[0], size[2]) * 0.45, 32]} />
+        <meshStandardMaterial color={color} emissive={color} emissiveIntensity={0.6} />
+      </mesh>
+    </RigidBody>
+  );
+}
@@ -1,28 +1,216 @@
 // ...existing code...
-import { useRef } from 'react';
-import { useFrame } from '@react-three/fiber';
-import { Vector3 } from 'three';
+import { useEffect, useRef } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import { MathUtils, Raycaster, Vector3, type Material, type Mesh, type Object3D, type ShaderMaterial } from 'three';
 import { PerspectiveCamera } from '@react-three/drei';
+import { useRapier } from '@react-three/rapier';
 import { useCameraControls } from '../hooks/useCameraControls';
+import type { CharacterControllerHandle } from './CharacterController';
+import { OCCLUDER_LAYER } from './CameraOccluder';
 
 type FollowCameraProps = {
-  target: { current: { position: Vector3 } | null };
+  target: React.RefObject<CharacterControllerHandle>;
 };
 
+// A faded mesh wears its own copies of its materials, so meshes sharing a
+// material don't fade with it
+type FadedMesh = {
+  mesh: Mesh;
+  original: Material | Material[];
+  materials: Material[];
+  opacities: number[];
+};
+
+const IDENTITY_ROTATION = { x: 0, y: 0, z: 0, w: 1 };
+
+// Custom shaders generally ignore `opacity`, so fading them would only drop depth writes
+function canFade(material: Material) {
+  return !(material as ShaderMaterial).isShaderMaterial;
+}
+
+function restore(f: FadedMesh) {
+  f.mesh.material = f.original;
+  f.materials.forEach((m) => m.dispose());
+}
+
+function isDescendantOf(obj: Object3D, ancestor: Object3D | null) {
+  for (let o: Object3D | null = obj; o; o = o.parent) {
+    if (o === ancestor) return true;
+  }
+  return false;
+}
+
 export function FollowCamera({ target }: FollowCameraProps) {
   const cameraRef = useRef<THREE.Group>(null);
   const controls = useCameraControls();
   const currentPos = useRef(new Vector3());
-  
-  useFrame((state) => {
+  const { gl, scene } = useThree();
+  const { rapier, world } = useRapier();
+
+  // Collision: distance currently allowed from the head to the camera
+  const allowedDistance = useRef(Infinity);
+  const collisionShape = useRef<InstanceType<typeof rapier.Ball> | null>(null);
+
+  // Occlusion: only tagged occluders are tested, and faded meshes are kept so
+  // they can be restored
+  const raycaster = useRef(new Raycaster());
+  const faded = useRef(new Map<Mesh, FadedMesh>());
+
+  // Live orbit state (degrees / world units), seeded from Leva
+  const yaw = useRef(controls.yaw ?? 0);
+  const pitch = useRef(controls.pitch ?? 0);
+  const distance = useRef(controls.distance ?? 1);
+
+  // Last respawn we followed; a new one snaps the camera instead of easing over
+  const respawnCount = useRef(0);
+
+  useEffect(() => {
+    yaw.current = controls.yaw ?? 0;
+  }, [controls.yaw]);
+
+  useEffect(() => {
+    pitch.current = controls.pitch ?? 0;
+  }, [controls.pitch]);
+
+  useEffect(() => {
+    distance.current = controls.distance ?? 1;
+  }, [controls.distance]);
+
+  // Mouse drag / pointer lock / two-finger touch orbit + wheel and pinch zoom
+  useEffect(() => {
+    if (controls.orbitMode === 'off') return;
+
+    const el = gl.domElement;
+    const prevTouchAction = el.style.touchAction;
+    el.style.touchAction = 'none';
+
+    const clampPitch = (p: number) => MathUtils.clamp(p, controls.minPitch, controls.maxPitch);
+    const clampDistance = (d: number) =>
+      MathUtils.clamp(d, controls.minDistance, controls.maxDistance);
+
+    const rotate = (dx: number, dy: number) => {
+      yaw.current -= dx * controls.lookSensitivity;
+      pitch.current = clampPitch(pitch.current + dy * controls.lookSensitivity);
+    };
+
+    let dragging = false;
+
+    const onPointerDown = (e: PointerEvent) => {
+      if (e.pointerType === 'touch') return;
+      if (controls.orbitMode === 'pointerLock') {
+        if (document.pointerLockElement !== el) el.requestPointerLock();
+        return;
+      }
+      dragging = true;
+      el.setPointerCapture(e.pointerId);
+    };
+
+    const onPointerMove = (e: PointerEvent) => {
+      if (e.pointerType === 'touch') return;
+      const locked = document.pointerLockElement === el;
+      if (!dragging && !locked) return;
+      rotate(e.movementX, e.movementY);
+    };
+
+    const onPointerUp = (e: PointerEvent) => {
+      if (!dragging) return;
+      dragging = false;
+      if (el.hasPointerCapture(e.pointerId)) el.releasePointerCapture(e.pointerId);
+    };
+
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      distance.current = clampDistance(distance.current * (1 + e.deltaY * 0.001 * controls.zoomSpeed));
+    };
+
+    // Two-finger drag rotates, pinch zooms. Single touches are left to the joystick.
+    let lastMid: { x: number; y: number } | null = null;
+    let lastSpread = 0;
+
+    const readTouches = (e: TouchEvent) => {
+      const a = e.touches[0];
+      const b = e.touches[1];
+      return {
+        mid: { x: (a.clientX + b.clientX) / 2, y: (a.clientY + b.clientY) / 2 },
+        spread: Math.hypot(a.clientX - b.clientX, a.clientY - b.clientY)
+      };
+    };
+
+    const onTouchStart = (e: TouchEvent) => {
+      if (e.touches.length !== 2) return;
+      const { mid, spread } = readTouches(e);
+      lastMid = mid;
+      lastSpread = spread;
+    };
+
+    const onTouchMove = (e: TouchEvent) => {
+      if (e.touches.length !== 2 || !lastMid) return;
+      e.preventDefault();
+      const { mid, spread } = readTouches(e);
+      rotate(mid.x - lastMid.x, mid.y - lastMid.y);
+      if (lastSpread > 0 && spread > 0) {
+        distance.current = clampDistance(distance.current * (lastSpread / spread));
+      }
+      lastMid = mid;
+      lastSpread = spread;
+    };
+
+    const onTouchEnd = (e: TouchEvent) => {
+      if (e.touches.length < 2) lastMid = null;
+    };
+
+    el.addEventListener('pointerdown', onPointerDown);
+    el.addEventListener('pointermove', onPointerMove);
+    el.addEventListener('pointerup', onPointerUp);
+    el.addEventListener('pointercancel', onPointerUp);
+    el.addEventListener('wheel', onWheel, { passive: false });
+    el.addEventListener('touchstart', onTouchStart, { passive: true });
+    el.addEventListener('touchmove', onTouchMove, { passive: false });
+    el.addEventListener('touchend', onTouchEnd);
+    el.addEventListener('touchcancel', onTouchEnd);
+
+    return () => {
+      el.removeEventListener('pointerdown', onPointerDown);
+      el.removeEventListener('pointermove', onPointerMove);
+      el.removeEventListener('pointerup', onPointerUp);
+      el.removeEventListener('pointercancel', onPointerUp);
+      el.removeEventListener('wheel', onWheel);
+      el.removeEventListener('touchstart', onTouchStart);
+      el.removeEventListener('touchmove', onTouchMove);
+      el.removeEventListener('touchend', onTouchEnd);
+      el.removeEventListener('touchcancel', onTouchEnd);
+      el.style.touchAction = prevTouchAction;
+      if (document.pointerLockElement === el) document.exitPointerLock();
+    };
+  }, [
+    gl,
+    controls.orbitMode,
+    controls.lookSensitivity,
+    controls.zoomSpeed,
+    controls.minPitch,
+    controls.maxPitch,
+    controls.minDistance,
+    controls.maxDistance
+  ]);
+
+  // Restore anything still faded when occlusion is turned off or we unmount
+  useEffect(() => {
+    const fadedMeshes = faded.current;
+    return () => {
+      fadedMeshes.forEach(restore);
+      fadedMeshes.clear();
+    };
+  }, [controls.occlusionFade]);
+
+  useFrame((state, delta) => {
     if (!target.current || !cameraRef.current) return;
 
     const position = target.current.position;
 
     // convert degrees -> radians
-    const pitchRad = (controls.pitch ?? 0) * (Math.PI / 180);
-    const yawRad = (controls.yaw ?? 0) * (Math.PI / 180);
-    const dist = controls.distance ?? 1;
+    const pitchRad = pitch.current * (Math.PI / 180);
+    const yawRad = yaw.current * (Math.PI / 180);
+    const dist = distance.current;
     const height = controls.height ?? 1;
 
     // Spherical-style offset:
@@ -37,34 +225,112 @@ export function FollowCamera({ target }: FollowCameraProps) {
     const targetPos = position.clone().add(offset);
 
     // Smooth camera movement (smoothness should be 0..1 for lerp factor)
-    currentPos.current.lerp(targetPos, controls.smoothness ?? 0.1);
-    state.camera.position.copy(currentPos.current);
+    if (target.current.respawnCount !== respawnCount.current) {
+      respawnCount.current = target.current.respawnCount;
+      currentPos.current.copy(targetPos);
+      allowedDistance.current = Infinity;
+    } else {
+      currentPos.current.lerp(targetPos, controls.smoothness ?? 0.1);
+    }
+
+    const head = position.clone().add(new Vector3(0, height, 0));
+    const toCamera = currentPos.current.clone().sub(head);
+    const wantedDistance = toCamera.length();
+    toCamera.normalize();
+
+    // Shape-cast from the head towards the camera; pull in instantly on hits,
+    // ease back out once the way is clear again
+    let clearDistance = wantedDistance;
+    if (controls.collisionEnabled && wantedDistance > 1e-4) {
+      if (!collisionShape.current || collisionShape.current.radius !== controls.collisionRadius) {
+        collisionShape.current = new rapier.Ball(controls.collisionRadius);
+      }
+
+      const hit = world.castShape(
+        head,
+        IDENTITY_ROTATION,
+        toCamera,
+        collisionShape.current,
+        0,
+        wantedDistance,
+        true,
+        rapier.QueryFilterFlags.EXCLUDE_DYNAMIC | rapier.QueryFilterFlags.EXCLUDE_SENSORS,
+        undefined,
+        undefined,
+        target.current.rigidBody ?? undefined
+      );
+      if (hit) clearDistance = hit.time_of_impact;
+    }
+
+    if (clearDistance < allowedDistance.current) {
+      allowedDistance.current = clearDistance;
+    } else {
+      allowedDistance.current = MathUtils.damp(
+        allowedDistance.current,
+        clearDistance,
+        controls.collisionRecovery,
+        delta
+      );
+    }
+
+    const cameraDistance = Math.min(wantedDistance, allowedDistance.current);
+    state.camera.position.copy(head).addScaledVector(toCamera, cameraDistance);
 
     // Look at the target's head (respecting height)
-    state.camera.lookAt(position.clone().add(new Vector3(0, height, 0)));
+    state.camera.lookAt(head);
+
+    if (controls.occlusionFade) updateOcclusion(state.camera.position, head, delta);
   });
 
-  return (
-    <group ref={cameraRef}>
-      <PerspectiveCamera makeDefault position={[0, controls.height, controls.distance]} fov={75}>
-        <meshBasicMaterial attach="material" color="red" />
-      </PerspectiveCamera>
-    </group>
-  );
+  // Fade meshes between the camera and the character's head
+  const updateOcclusion = (from: Vector3, head: Vector3, delta: number) => {
+    const dir = head.clone().sub(from);
+    const far = dir.length();
+    if (far < 1e-4) return;
 
-  
-  useFrame((state) => {
-    if (!target.current || !cameraRef.current) return;
+    raycaster.current.set(from, dir.normalize());
+    raycaster.current.far = far;
+    raycaster.current.layers.set(OCCLUDER_LAYER);
 
-    const position = target.current.position;
-    const targetPos = position.clone().add(new Vector3(0, controls.height, controls.distance));
+    const occluding = new Set<Mesh>();
+    for (const hit of raycaster.current.intersectObjects(scene.children, true)) {
+      const mesh = hit.object as Mesh;
+      if (!mesh.isMesh || isDescendantOf(mesh, target.current?.object ?? null)) continue;
+      occluding.add(mesh);
+    }
 
-    // Smooth camera movement
-    currentPos.current.lerp(targetPos, controls.smoothness);
-    state.camera.position.copy(currentPos.current);
-    // state.camera.lookAt(position.clone());
-    state.camera.lookAt(position.clone().add(new Vector3(0, controls.height, 0)));
-  });
+    occluding.forEach((mesh) => {
+      if (faded.current.has(mesh)) return;
+      const original = mesh.material;
+      const originals = Array.isArray(original) ? original : [original];
+      if (!originals.every(canFade)) return;
+
+      const materials = originals.map((m) => {
+        const copy = m.clone();
+        copy.transparent = true;
+        copy.depthWrite = false;
+        return copy;
+      });
+      mesh.material = Array.isArray(original) ? materials : materials[0];
+      faded.current.set(mesh, { mesh, original, materials, opacities: originals.map((m) => m.opacity) });
+    });
+
+    faded.current.forEach((f, mesh) => {
+      const hidden = occluding.has(mesh);
+      let settled = !hidden;
+      f.materials.forEach((material, i) => {
+        const goal = hidden ? Math.min(f.opacities[i], controls.occludedOpacity) : f.opacities[i];
+        material.opacity = MathUtils.damp(material.opacity, goal, controls.fadeSpeed, delta);
+        if (Math.abs(material.opacity - f.opacities[i]) >= 0.01) settled = false;
+      });
+
+      // Fully faded back in: hand the mesh its original materials again
+      if (settled) {
+        restore(f);
+        faded.current.delete(mesh);
+      }
+    });
+  };
 
   return (
     <group ref={cameraRef}>
@@ -73,4 +339,4 @@ export function FollowCamera({ target }: FollowCameraProps) {
       </PerspectiveCamera>
     </group>
   );
-}
\ No newline at end of file
+}
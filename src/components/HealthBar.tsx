@@ -0,0 +1,90 @@
+import { useEffect, useState } from 'react';
+import type { HealthManager } from '../utils/HealthManager';
+
+type HealthBarProps = {
+  health: HealthManager;
+};
+
+// How long the damage flash and checkpoint notice stay up, ms
+const FLASH_TIME = 300;
+const NOTICE_TIME = 2000;
+
+export function HealthBar({ health }: HealthBarProps) {
+  const [current, setCurrent] = useState(health.health);
+  const [max, setMax] = useState(health.maxHealth);
+  const [isDead, setIsDead] = useState(health.isDead);
+  const [flash, setFlash] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    const timers = new Set<ReturnType<typeof setTimeout>>();
+    const later = (fn: () => void, ms: number) => {
+      const id = setTimeout(() => {
+        timers.delete(id);
+        fn();
+      }, ms);
+      timers.add(id);
+    };
+
+    const sync = () => {
+      setCurrent(health.health);
+      setMax(health.maxHealth);
+      setIsDead(health.isDead);
+    };
+
+    const unsubscribe = [
+      health.on('damage', () => {
+        sync();
+        setFlash(true);
+        later(() => setFlash(false), FLASH_TIME);
+      }),
+      health.on('heal', sync),
+      health.on('death', sync),
+      health.on('respawn', sync),
+      health.on('restore', sync),
+      health.on('checkpoint', () => {
+        setNotice('Checkpoint reached');
+        later(() => setNotice(null), NOTICE_TIME);
+      })
+    ];
+
+    return () => {
+      unsubscribe.forEach((off) => off());
+      timers.forEach(clearTimeout);
+    };
+  }, [health]);
+
+  const fraction = max > 0 ? current / max : 0;
+
+  return (
+    <>
+      <div className="fixed top-16 left-4 z-50 w-48 pointer-events-none select-none">
+        <div
+          className={`h-3 rounded-full overflow-hidden bg-white/20 backdrop-blur-sm transition ${
+            flash ? 'ring-2 ring-red-400' : ''
+          }`}
+        >
+          <div
+            className={`h-full transition-all duration-300 ${fraction > 0.3 ? 'bg-green-400' : 'bg-red-500'}`}
+            style={{ width: `${fraction * 100}%` }}
+          />
+        </div>
+        <div className="mt-1 text-white/80 text-xs font-mono">
+          {Math.ceil(current)} / {max}
+        </div>
+      </div>
+
+      {notice ? (
+        <div className="fixed top-16 left-1/2 -translate-x-1/2 z-50 text-yellow-200 font-mono text-sm pointer-events-none select-none bg-black/30 px-4 py-2 rounded-lg backdrop-blur-sm">
+          {notice}
+        </div>
+      ) : null}
+
+      {isDead ? (
+        <div className="fixed inset-0 z-40 flex items-center justify-center bg-red-900/30 pointer-events-none select-none">
+          <div className="text-white font-mono text-2xl">Respawning...</div>
+        </div>
+      ) : null}
+    </>
+  );
+}
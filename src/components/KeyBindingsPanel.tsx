@@ -0,0 +1,118 @@
+import React from 'react';
+import { ACTIONS, MAX_KEYS_PER_ACTION, formatKey, type Action, type KeyBindings } from '../utils/keyBindings';
+
+type KeyBindingsPanelProps = {
+  bindings: KeyBindings;
+  conflicts: { key: string; actions: Action[] }[];
+  layout: Map<string, string> | null;
+  setBinding: (action: Action, slot: number, code: string | null) => void;
+  resetBindings: () => void;
+  onClose: () => void;
+};
+
+const LABELS = Object.fromEntries(ACTIONS.map((a) => [a.name, a.label])) as Record<Action, string>;
+
+/**
+ * Click a slot, then press the key to bind to it. Escape cancels and
+ * Backspace/Delete clears the slot.
+ */
+export function KeyBindingsPanel({
+  bindings,
+  conflicts,
+  layout,
+  setBinding,
+  resetBindings,
+  onClose
+}: KeyBindingsPanelProps) {
+  const [listening, setListening] = React.useState<{ action: Action; slot: number } | null>(null);
+
+  React.useEffect(() => {
+    if (!listening) return;
+
+    // Capture phase, so the key doesn't also reach the game's KeyboardControls
+    const onKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+
+      if (e.code === 'Escape') {
+        setListening(null);
+        return;
+      }
+      const clear = e.code === 'Backspace' || e.code === 'Delete';
+      setBinding(listening.action, listening.slot, clear ? null : e.code);
+      setListening(null);
+    };
+
+    window.addEventListener('keydown', onKeyDown, true);
+    return () => window.removeEventListener('keydown', onKeyDown, true);
+  }, [listening, setBinding]);
+
+  const conflicting = new Set(conflicts.map((c) => c.key));
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/70">
+      <div className="w-[min(520px,92vw)] max-h-[86vh] overflow-y-auto bg-neutral-900 rounded-2xl shadow-2xl border border-white/10 p-5 text-white">
+        <div className="flex items-center justify-between mb-4">
+          <div className="font-mono text-sm">Controls</div>
+          <div className="flex gap-2">
+            <button
+              className="px-3 py-1 rounded-md bg-white/10 text-white hover:bg-white/20 transition text-sm"
+              onClick={resetBindings}
+            >
+              Reset to defaults
+            </button>
+            <button
+              className="px-3 py-1 rounded-md bg-white/10 text-white hover:bg-white/20 transition text-sm"
+              onClick={onClose}
+            >
+              Close
+            </button>
+          </div>
+        </div>
+
+        <div className="flex flex-col gap-2">
+          {ACTIONS.map(({ name, label }) => (
+            <div key={name} className="flex items-center justify-between gap-3">
+              <div className="text-sm text-white/80">{label}</div>
+              <div className="flex gap-2">
+                {Array.from({ length: MAX_KEYS_PER_ACTION }, (_, slot) => {
+                  const code = bindings[name][slot];
+                  const isListening = listening?.action === name && listening.slot === slot;
+                  return (
+                    <button
+                      key={slot}
+                      className={`w-28 px-2 py-1 rounded-md font-mono text-xs border transition ${
+                        isListening
+                          ? 'border-yellow-300 bg-yellow-300/10'
+                          : code && conflicting.has(code)
+                            ? 'border-red-400 bg-red-500/20'
+                            : 'border-white/10 bg-white/10 hover:bg-white/20'
+                      }`}
+                      onClick={() => setListening(isListening ? null : { action: name, slot })}
+                    >
+                      {isListening ? 'Press a key...' : code ? formatKey(code, layout) : '—'}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {conflicts.length > 0 ? (
+          <div className="mt-4 text-xs text-red-200 flex flex-col gap-1">
+            {conflicts.map(({ key, actions }) => (
+              <div key={key}>
+                {formatKey(key, layout)} is bound to {actions.map((a) => LABELS[a]).join(' and ')}
+              </div>
+            ))}
+          </div>
+        ) : null}
+
+        <div className="mt-4 text-xs text-white/50">
+          Click a slot and press a key. Esc cancels, Backspace clears.
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -10,7 +10,7 @@ const CENTER_THRESHOLD = 0.01; // Smaller threshold for more precise centering
 type TouchZone = 'none' | 'joystick' | 'jump';
 
 export function MobileControls() {
-  const { setIsJumping, setMovement } = useMobileControls();
+  const { setIsJumping, isCrouching, setIsCrouching, isDashing, setIsDashing, setMovement } = useMobileControls();
   const [joystickPosition, setJoystickPosition] = React.useState({ x: 0, y: 0 });
   const [targetPosition, setTargetPosition] = React.useState({ x: 0, y: 0 });
   const [isDragging, setIsDragging] = React.useState(false);
@@ -133,6 +133,23 @@ export function MobileControls() {
     setActiveZone('none');
   };
 
+  // Crouch is a toggle on touch: holding a third finger down is awkward
+  // One pointer event per tap, so the mouse event a browser emulates after a
+  // touch can't toggle it straight back
+  const handleCrouchToggle = (e: React.PointerEvent) => {
+    e.preventDefault();
+    setIsCrouching(!isCrouching);
+  };
+
+  const handleDashStart = (e: React.TouchEvent | React.MouseEvent) => {
+    e.preventDefault();
+    setIsDashing(true);
+  };
+
+  const handleDashEnd = () => {
+    setIsDashing(false);
+  };
+
   const updateJoystickPosition = (e: React.TouchEvent | React.MouseEvent) => {
     if (!joystickRef.current) return;
 
@@ -188,8 +205,38 @@ export function MobileControls() {
           </div>
         </div>
 
-        {/* Right Side - Jump Button Zone */}
-        <div className="flex-1 h-48 flex items-end justify-end">
+        {/* Right Side - Dash + Crouch + Jump Button Zone */}
+        <div className="flex-1 h-48 flex items-end justify-end gap-4">
+          <div className="flex flex-col gap-3">
+            <button
+              className="w-16 h-16 rounded-full backdrop-blur-sm border-2 pointer-events-auto flex items-center justify-center select-none touch-none shadow-lg shadow-black/25 transition-all duration-200"
+              style={{
+                backgroundColor: isDashing ? 'rgba(255,255,255,0.2)' : 'rgba(255,255,255,0.05)',
+                borderColor: isDashing ? 'rgba(255,255,255,0.5)' : 'rgba(255,255,255,0.2)'
+              }}
+              onTouchStart={handleDashStart}
+              onMouseDown={handleDashStart}
+              onTouchEnd={handleDashEnd}
+              onMouseUp={handleDashEnd}
+              onMouseLeave={handleDashEnd}
+            >
+              <div className="text-white/70 font-semibold text-xs select-none">
+                DASH
+              </div>
+            </button>
+            <button
+              className="w-16 h-16 rounded-full backdrop-blur-sm border-2 pointer-events-auto flex items-center justify-center select-none touch-none shadow-lg shadow-black/25 transition-all duration-200"
+              style={{
+                backgroundColor: isCrouching ? 'rgba(255,255,255,0.2)' : 'rgba(255,255,255,0.05)',
+                borderColor: isCrouching ? 'rgba(255,255,255,0.5)' : 'rgba(255,255,255,0.2)'
+              }}
+              onPointerDown={handleCrouchToggle}
+            >
+              <div className="text-white/70 font-semibold text-xs select-none">
+                CROUCH
+              </div>
+            </button>
+          </div>
           <button 
             className="w-24 h-24 rounded-full bg-white/5 backdrop-blur-sm border-2 border-white/20 pointer-events-auto transform will-change-transform flex items-center justify-center select-none touch-none shadow-lg shadow-black/25 transition-all duration-200"
             style={{
@@ -0,0 +1,119 @@
+import { useMemo, useRef } from 'react';
+import { CatmullRomCurve3, Quaternion, Vector3 } from 'three';
+import {
+  CuboidCollider,
+  RigidBody,
+  useBeforePhysicsStep,
+  type RapierRigidBody
+} from '@react-three/rapier';
+
+type MovingPlatformProps = {
+  /** Points the platform travels through, in world space */
+  waypoints: [number, number, number][];
+  /** 'linear' goes straight between waypoints, 'spline' follows a smooth curve through them */
+  path?: 'linear' | 'spline';
+  /** Travel speed in m/s */
+  speed?: number;
+  /** Return to the first waypoint (true) or reverse along the path (false) */
+  loop?: boolean;
+  /** Seconds to wait at either end of a non-looping path */
+  pauseTime?: number;
+  /** Constant yaw spin in rad/s */
+  rotationSpeed?: number;
+  size?: [number, number, number];
+  color?: string;
+};
+
+const UP = new Vector3(0, 1, 0);
+
+/**
+ * Kinematic platform that follows waypoints or a spline. It is moved with
+ * `setNextKinematicTranslation` so Rapier reports its velocity, which the
+ * character controller inherits while standing on it.
+ */
+export function MovingPlatform({
+  waypoints,
+  path = 'linear',
+  speed = 2,
+  loop = false,
+  pauseTime = 1,
+  rotationSpeed = 0,
+  size = [3, 0.5, 3],
+  color = '#b794f4'
+}: MovingPlatformProps) {
+  const body = useRef<RapierRigidBody>(null);
+
+  const travelled = useRef(0);
+  const direction = useRef(1);
+  const pause = useRef(0);
+  const yaw = useRef(0);
+
+  const position = useRef(new Vector3());
+  const rotation = useRef(new Quaternion());
+
+  const route = useMemo(() => {
+    const points = waypoints.map((p) => new Vector3(...p));
+
+    if (path === 'spline' && points.length > 1) {
+      const curve = new CatmullRomCurve3(points, loop);
+      return {
+        length: curve.getLength(),
+        pointAt: (d: number, out: Vector3) => curve.getPointAt(d / curve.getLength(), out)
+      };
+    }
+
+    const stops = loop && points.length > 1 ? [...points, points[0]] : points;
+    const lengths = stops.slice(1).map((p, i) => p.distanceTo(stops[i]));
+    return {
+      length: lengths.reduce((sum, l) => sum + l, 0),
+      pointAt: (d: number, out: Vector3) => {
+        for (let i = 0; i < lengths.length; i++) {
+          if (d <= lengths[i] || i === lengths.length - 1) {
+            const t = lengths[i] > 0 ? Math.min(1, d / lengths[i]) : 0;
+            return out.lerpVectors(stops[i], stops[i + 1], t);
+          }
+          d -= lengths[i];
+        }
+        return out.copy(stops[0]);
+      }
+    };
+  }, [waypoints, path, loop]);
+
+  useBeforePhysicsStep((world) => {
+    const rb = body.current;
+    if (!rb || route.length <= 0) return;
+
+    const dt = world.timestep;
+
+    if (pause.current > 0) {
+      pause.current -= dt;
+    } else {
+      travelled.current += speed * dt * direction.current;
+
+      if (loop) {
+        travelled.current = ((travelled.current % route.length) + route.length) % route.length;
+      } else if (travelled.current >= route.length || travelled.current <= 0) {
+        travelled.current = Math.min(route.length, Math.max(0, travelled.current));
+        direction.current *= -1;
+        pause.current = pauseTime;
+      }
+    }
+
+    rb.setNextKinematicTranslation(route.pointAt(travelled.current, position.current));
+
+    if (rotationSpeed !== 0) {
+      yaw.current += rotationSpeed * dt;
+      rb.setNextKinematicRotation(rotation.current.setFromAxisAngle(UP, yaw.current));
+    }
+  });
+
+  return (
+    <RigidBody ref={body} type="kinematicPosition" colliders={false} position={waypoints[0]}>
+      <CuboidCollider args={[size[0] / 2, size[1] / 2, size[2] / 2]} />
+      <mesh castShadow receiveShadow>
+        <boxGeometry args={size} />
+        <meshStandardMaterial color={color} roughness={0.8} />
+      </mesh>
+    </RigidBody>
+  );
+}
@@ -1,8 +1,21 @@
 import { RigidBody } from '@react-three/rapier';
+import { MovingPlatform } from './MovingPlatform';
+import { WaterVolume } from './WaterVolume';
+import { Checkpoint } from './Checkpoint';
+import { CameraOccluder } from './CameraOccluder';
+
+// Pool basin: water fills x -7..-4.2, z -3..0.5, and the rim stands just above
+// the surface, so the way in is over the top (or down from the step)
+const POOL_WALLS: { position: [number, number, number]; size: [number, number, number] }[] = [
+  { position: [-5.6, 1.25, -3.15], size: [3.4, 2.5, 0.3] },
+  { position: [-5.6, 1.25, 0.65], size: [3.4, 2.5, 0.3] },
+  { position: [-7.15, 1.25, -1.25], size: [0.3, 2.5, 3.5] },
+  { position: [-4.05, 1.25, -1.25], size: [0.3, 2.5, 3.5] }
+];
 
 export function Platforms() {
   return (
-    <group>
+    <CameraOccluder>
       {/* Small Platform */}
       <RigidBody type="fixed" colliders="cuboid">
         <mesh castShadow receiveShadow position={[5, 2, 5]}>
@@ -46,6 +59,52 @@ export function Platforms() {
           <meshStandardMaterial color="#feb2b2" roughness={0.8} />
         </mesh>
       </RigidBody>
-    </group>
+
+      {/* Checkpoints on the way up */}
+      <Checkpoint id="medium-platform" position={[-6, 4.25, -6]} size={[3, 2, 3]} />
+      <Checkpoint id="large-platform" position={[0, 6.25, -8]} size={[4, 2, 4]} yaw={Math.PI} />
+
+      {/* Elevator up to the large platform */}
+      <MovingPlatform waypoints={[[4.6, 0.25, -8], [4.6, 6, -8]]} speed={1.5} pauseTime={2} />
+
+      {/* Spinning carousel on a looping spline */}
+      <MovingPlatform
+        waypoints={[[-3, 0.5, 0], [0, 0.5, 3], [3, 0.5, 0], [0, 0.5, -3]]}
+        path="spline"
+        loop
+        speed={1}
+        rotationSpeed={0.5}
+      />
+
+      {/* Walled pool, deep enough to dive, with a step to climb in from and
+          a couple of floating crates */}
+      {POOL_WALLS.map(({ position, size }, i) => (
+        <RigidBody key={i} type="fixed" colliders="cuboid">
+          <mesh castShadow receiveShadow position={position}>
+            <boxGeometry args={size} />
+            <meshStandardMaterial color="#a0aec0" roughness={0.8} />
+          </mesh>
+        </RigidBody>
+      ))}
+      <RigidBody type="fixed" colliders="cuboid">
+        <mesh castShadow receiveShadow position={[-5.5, 0.6, 1.3]}>
+          <boxGeometry args={[1, 1.2, 1]} />
+          <meshStandardMaterial color="#a0aec0" roughness={0.8} />
+        </mesh>
+      </RigidBody>
+      <WaterVolume position={[-5.6, 1.15, -1.25]} size={[2.8, 2.3, 3.5]} />
+      <RigidBody colliders="cuboid" position={[-6, 3, -2]}>
+        <mesh castShadow receiveShadow>
+          <boxGeometry args={[0.6, 0.6, 0.6]} />
+          <meshStandardMaterial color="#c4a484" roughness={0.8} />
+        </mesh>
+      </RigidBody>
+      <RigidBody colliders="cuboid" position={[-5, 4, -0.5]}>
+        <mesh castShadow receiveShadow>
+          <boxGeometry args={[0.8, 0.4, 0.8]} />
+          <meshStandardMaterial color="#c4a484" roughness={0.8} />
+        </mesh>
+      </RigidBody>
+    </CameraOccluder>
   );
 }
\ No newline at end of file
@@ -0,0 +1,94 @@
+import React from 'react';
+import type { CharacterControllerHandle } from './CharacterController';
+import { useCharacterControls } from '../hooks/useCharacterControls';
+import { changedReplayControls, downloadReplay, parseReplay } from '../utils/replay';
+
+type ReplayControlsProps = {
+  target: React.RefObject<CharacterControllerHandle>;
+};
+
+type Status = 'idle' | 'recording' | 'replaying';
+
+/** Record input to a JSON file for bug reports, and play such files back */
+export function ReplayControls({ target }: ReplayControlsProps) {
+  const [status, setStatus] = React.useState<Status>('idle');
+  const [error, setError] = React.useState<string | null>(null);
+  const [warning, setWarning] = React.useState<string | null>(null);
+  const controls = useCharacterControls();
+  const fileRef = React.useRef<HTMLInputElement | null>(null);
+
+  const startRecording = () => {
+    if (!target.current) return;
+    target.current.startRecording();
+    setError(null);
+    setWarning(null);
+    setStatus('recording');
+  };
+
+  const stopRecording = () => {
+    const replay = target.current?.stopRecording();
+    setStatus('idle');
+    if (replay && replay.frames.length > 0) downloadReplay(replay);
+  };
+
+  const playFile = async (file: File) => {
+    if (!target.current) return;
+    setError(null);
+    setWarning(null);
+    try {
+      const replay = parseReplay(await file.text());
+      const changed = changedReplayControls(replay, controls);
+      if (changed.length > 0) {
+        setWarning(`Physics settings differ from the recording, so it may drift: ${changed.join(', ')}`);
+      }
+      setStatus('replaying');
+      await target.current.playReplay(replay);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+    setStatus('idle');
+  };
+
+  const buttonClass =
+    'px-3 py-2 rounded-lg bg-white/20 text-white text-sm backdrop-blur-sm hover:bg-white/30 transition';
+
+  return (
+    <div className="fixed top-14 right-4 z-50 flex flex-col items-end gap-2">
+      {error ? <div className="text-xs text-red-200 max-w-xs text-right">{error}</div> : null}
+      {warning ? <div className="text-xs text-yellow-200 max-w-xs text-right">{warning}</div> : null}
+
+      <div className="flex gap-2">
+        {status === 'recording' ? (
+          <button className={`${buttonClass} ring-2 ring-red-400`} onClick={stopRecording}>
+            Stop &amp; save
+          </button>
+        ) : status === 'replaying' ? (
+          <button className={buttonClass} onClick={() => target.current?.stopReplay()}>
+            Stop replay
+          </button>
+        ) : (
+          <>
+            <button className={buttonClass} onClick={startRecording}>
+              Record
+            </button>
+            <button className={buttonClass} onClick={() => fileRef.current?.click()}>
+              Play replay
+            </button>
+          </>
+        )}
+      </div>
+
+      <input
+        ref={fileRef}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          e.target.value = '';
+          if (file) void playFile(file);
+        }}
+      />
+    </div>
+  );
+}
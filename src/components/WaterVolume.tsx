@@ -0,0 +1,97 @@
+import { useMemo, useRef } from 'react';
+import {
+  CuboidCollider,
+  RigidBody,
+  useBeforePhysicsStep,
+  useRapier,
+  type RapierCollider,
+  type RapierContext
+} from '@react-three/rapier';
+import type { WaterProperties } from '../utils/probes';
+
+type WaterVolumeProps = {
+  /** Centre of the volume, world space */
+  position: [number, number, number];
+  size?: [number, number, number];
+  /** Upward force on fully submerged bodies, relative to gravity; above 1 floats */
+  buoyancy?: number;
+  /** Linear and angular drag rate in 1/s */
+  drag?: number;
+  color?: string;
+  opacity?: number;
+};
+
+/**
+ * Box of water. Its sensor tags itself with `WaterProperties` in userData so the
+ * character controller can swim in it, and pushes dynamic bodies inside it up
+ * in proportion to how deep they are submerged.
+ */
+export function WaterVolume({
+  position,
+  size = [6, 2.5, 6],
+  buoyancy = 1.6,
+  drag = 2,
+  color = '#3b82f6',
+  opacity = 0.45
+}: WaterVolumeProps) {
+  const sensor = useRef<RapierCollider>(null);
+  const { rapier } = useRapier();
+
+  const water = useMemo<WaterProperties>(
+    () => ({ surfaceY: position[1] + size[1] / 2, buoyancy, drag }),
+    [position, size, buoyancy, drag]
+  );
+
+  useBeforePhysicsStep((world) => {
+    const collider = sensor.current;
+    if (!collider) return;
+
+    const dt = world.timestep;
+    const gravity = -world.gravity.y;
+
+    world.intersectionPairsWith(collider, (other) => {
+      const body = other.parent();
+      if (!body || !body.isDynamic()) return;
+      // The character controller swims on its own
+      if ((body.userData as { character?: boolean } | undefined)?.character) return;
+
+      const halfHeight = getHalfHeight(rapier, other);
+      const y = other.translation().y;
+      const submerged = Math.min(1, Math.max(0, (water.surfaceY - (y - halfHeight)) / (2 * halfHeight)));
+      if (submerged <= 0) return;
+
+      const mass = body.mass();
+      body.applyImpulse({ x: 0, y: mass * gravity * water.buoyancy * submerged * dt, z: 0 }, true);
+
+      const damping = Math.min(1, water.drag * submerged * dt);
+      const v = body.linvel();
+      body.applyImpulse({ x: -v.x * mass * damping, y: -v.y * mass * damping, z: -v.z * mass * damping }, true);
+      const w = body.angvel();
+      body.setAngvel({ x: w.x * (1 - damping), y: w.y * (1 - damping), z: w.z * (1 - damping) }, true);
+    });
+  });
+
+  return (
+    <RigidBody type="fixed" colliders={false} position={position} userData={{ water }}>
+      <CuboidCollider ref={sensor} args={[size[0] / 2, size[1] / 2, size[2] / 2]} sensor />
+      <mesh>
+        <boxGeometry args={size} />
+        <meshStandardMaterial color={color} transparent opacity={opacity} depthWrite={false} />
+      </mesh>
+    </RigidBody>
+  );
+}
+
+// Vertical half-size of the shapes we expect to float; anything else counts as half a metre
+function getHalfHeight(rapier: RapierContext['rapier'], collider: RapierCollider) {
+  switch (collider.shapeType()) {
+    case rapier.ShapeType.Ball:
+      return collider.radius();
+    case rapier.ShapeType.Cuboid:
+      return collider.halfExtents().y;
+    case rapier.ShapeType.Capsule:
+      return collider.halfHeight() + collider.radius();
+    default:
+      return 0.5;
+  }
+}
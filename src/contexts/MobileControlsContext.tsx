@@ -3,6 +3,10 @@ import React, { createContext, useContext, useState } from 'react';
 type MobileControlsContextType = {
   isJumping: boolean;
   setIsJumping: (jumping: boolean) => void;
+  isCrouching: boolean;
+  setIsCrouching: (crouching: boolean) => void;
+  isDashing: boolean;
+  setIsDashing: (dashing: boolean) => void;
   movement: { x: number, y: number };
   setMovement: (movement: { x: number, y: number }) => void;
 };
@@ -10,16 +14,22 @@ type MobileControlsContextType = {
 const MobileControlsContext = createContext<MobileControlsContextType>({
   isJumping: false,
   setIsJumping: () => {},
+  isCrouching: false,
+  setIsCrouching: () => {},
+  isDashing: false,
+  setIsDashing: () => {},
   movement: { x: 0, y: 0 },
   setMovement: () => {},
 });
 
 export function MobileControlsProvider({ children }: { children: React.ReactNode }) {
   const [isJumping, setIsJumping] = useState(false);
+  const [isCrouching, setIsCrouching] = useState(false);
+  const [isDashing, setIsDashing] = useState(false);
   const [movement, setMovement] = useState({ x: 0, y: 0 });
 
   return (
-    <MobileControlsContext.Provider value={{ isJumping, setIsJumping, movement, setMovement }}>
+    <MobileControlsContext.Provider value={{ isJumping, setIsJumping, isCrouching, setIsCrouching, isDashing, setIsDashing, movement, setMovement }}>
       {children}
     </MobileControlsContext.Provider>
   );
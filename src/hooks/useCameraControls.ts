@@ -6,6 +6,23 @@ export function useCameraControls() {
     distance: { value: 0.6, min: 0, max: 20, step: 0.1 },
     pitch: { value: 5, min: -89, max: 89, step: 1 }, // up / down
     yaw: { value: 0, min: -180, max: 180, step: 1 },   // left / right
-    smoothness: { value: 1, min: 0.01, max: 1, step: 0.01 }
+    smoothness: { value: 1, min: 0.01, max: 1, step: 0.01 },
+
+    // Orbit (mouse drag / pointer lock / two-finger touch)
+    orbitMode: { value: 'drag', options: ['off', 'drag', 'pointerLock'] },
+    lookSensitivity: { value: 0.25, min: 0.01, max: 1, step: 0.01 }, // degrees per pixel
+    zoomSpeed: { value: 1, min: 0, max: 5, step: 0.1 },
+    minPitch: { value: -30, min: -89, max: 89, step: 1 },
+    maxPitch: { value: 70, min: -89, max: 89, step: 1 },
+    minDistance: { value: 0.3, min: 0, max: 20, step: 0.1 },
+    maxDistance: { value: 8, min: 0, max: 20, step: 0.1 },
+
+    // Collision / occlusion
+    collisionEnabled: { value: true },
+    collisionRadius: { value: 0.2, min: 0.01, max: 1, step: 0.01 },
+    collisionRecovery: { value: 4, min: 0.5, max: 20, step: 0.5 }, // per second, ease back out after a hit
+    occlusionFade: { value: true },
+    occludedOpacity: { value: 0.25, min: 0, max: 1, step: 0.05 },
+    fadeSpeed: { value: 8, min: 1, max: 30, step: 1 }
   });
 }
\ No newline at end of file
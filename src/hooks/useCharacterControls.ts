@@ -5,10 +5,85 @@ export function useCharacterControls() {
     moveSpeed: { value: 3.0, min: 0, max: 15, step: 0.1 },
     sprintMultiplier: { value: 3.0, min: 1, max: 5, step: 0.1 },
     jumpForce: { value: 2.5, min: 0, max: 5, step: 0.1 },
+    coyoteTime: { value: 0.12, min: 0, max: 0.5, step: 0.01 }, // seconds after leaving ground a jump is still allowed
+    jumpBufferTime: { value: 0.12, min: 0, max: 0.5, step: 0.01 }, // seconds a jump press is remembered before landing
+    maxJumps: { value: 2, min: 1, max: 5, step: 1 }, // 2 = double jump
+    airJumpForceScale: { value: 0.85, min: 0.1, max: 1.5, step: 0.05 }, // each air jump's force relative to the one before
+    jumpCutMultiplier: { value: 0.5, min: 0, max: 1, step: 0.05 }, // upward velocity kept when jump is released early
     fallMultiplier: { value: 5.0, min: 1, max: 5, step: 0.1 },
+    maxFallSpeed: { value: 20, min: 1, max: 50, step: 0.5 },
     airControl: { value: 0.75, min: 0, max: 1, step: 0.05 },
+    crouchHeight: { value: 1.4, min: 0.9, max: 2.4, step: 0.05 }, // capsule height while crouched (standing is 2.4)
+    crouchSpeedMultiplier: { value: 0.5, min: 0.1, max: 1, step: 0.05 },
+
+    // Hits: contact forces above the threshold knock the character back and stun it
+    impactForceThreshold: { value: 30, min: 1, max: 500, step: 1 }, // newtons
+    impactKnockbackScale: { value: 0.02, min: 0, max: 0.2, step: 0.005 }, // m/s per newton
+    maxKnockbackSpeed: { value: 10, min: 0, max: 30, step: 0.5 },
+    knockbackLift: { value: 0.25, min: 0, max: 1, step: 0.05 }, // upward share of a knockback
+    stunDuration: { value: 0.35, min: 0, max: 2, step: 0.05 }, // seconds without control
+    knockbackDamagePerSpeed: { value: 2, min: 0, max: 20, step: 0.5 }, // health per m/s of knockback
+
+    // Landing: touchdowns this fast play a landing and briefly slow movement, hard
+    // ones when coming down far enough below the take-off point
+    softLandingSpeed: { value: 4, min: 0, max: 30, step: 0.5 }, // m/s, slower touchdowns just carry on
+    hardLandingHeight: { value: 2, min: 0, max: 20, step: 0.5 }, // metres below the take-off point
+    softLandingSlowdown: { value: 0.2, min: 0, max: 1, step: 0.05 }, // share of move speed lost on touchdown
+    hardLandingSlowdown: { value: 0.6, min: 0, max: 1, step: 0.05 },
+    landingRecoveryTime: { value: 0.4, min: 0, max: 2, step: 0.05 }, // seconds back to full speed
+
+    // Health: landings below where a fall began hurt above a safe speed
+    maxHealth: { value: 100, min: 1, max: 500, step: 1 },
+    safeLandingSpeed: { value: 10, min: 0, max: 50, step: 0.5 }, // m/s
+    fallDamagePerSpeed: { value: 4, min: 0, max: 20, step: 0.5 }, // health per m/s above the safe speed
+    fallDamageHeight: { value: 3, min: 0, max: 20, step: 0.5 }, // metres below the take-off point
+    killPlaneY: { value: -20, min: -200, max: 0, step: 1 },
+    respawnDelay: { value: 2, min: 0, max: 10, step: 0.1 }, // seconds lying dead before respawning
+
+    // Ragdoll: big hits and long falls, then a get-up
+    ragdollEnabled: { value: true },
+    ragdollImpactSpeed: { value: 8, min: 1, max: 30, step: 0.5 }, // knockback speed that floors the character
+    ragdollFallHeight: { value: 6, min: 1, max: 30, step: 0.5 }, // metres below the take-off point before going limp
+    ragdollMinTime: { value: 1.5, min: 0.2, max: 5, step: 0.1 }, // seconds before getting up once at rest
+    ragdollMaxTime: { value: 5, min: 1, max: 15, step: 0.5 },
+    getUpDuration: { value: 1.2, min: 0, max: 3, step: 0.1 }, // seconds without control while standing up
+
+    // Swimming: depths are the feet below the water surface
+    swimSpeed: { value: 2.5, min: 0.5, max: 10, step: 0.1 },
+    swimVerticalSpeed: { value: 2.0, min: 0.5, max: 10, step: 0.1 }, // diving and rising
+    swimDepth: { value: 1.2, min: 0.2, max: 2.4, step: 0.05 }, // start swimming this deep
+    swimFloatDepth: { value: 1.7, min: 0.5, max: 2.4, step: 0.05 }, // resting depth at the surface
+
+    // Dash: a short burst along the facing direction
+    dashSpeed: { value: 12, min: 1, max: 30, step: 0.5 },
+    dashDuration: { value: 0.2, min: 0.05, max: 1, step: 0.01 }, // seconds
+    dashCooldown: { value: 0.6, min: 0, max: 3, step: 0.05 }, // seconds after a dash ends
+    maxAirDashes: { value: 1, min: 0, max: 5, step: 1 }, // reset on landing
+    dashInvulnerability: { value: 0.25, min: 0, max: 1, step: 0.01 }, // seconds, 0 to disable
     friction: { value: 0.5, min: 0, max: 2, step: 0.05 },
     linearDamping: { value: 1.0, min: 0, max: 10, step: 0.1 },
     angularDamping: { value: 3.0, min: 0, max: 5, step: 0.1 },
+
+    // Ground handling: slope limit and automatic step-up
+    maxSlopeAngle: { value: 45, min: 0, max: 89, step: 1 }, // degrees
+    maxStepHeight: { value: 0.3, min: 0, max: 1, step: 0.01 },
+    minStepDepth: { value: 0.2, min: 0, max: 1, step: 0.01 }, // free space needed on top of a step
+    snapToGroundDistance: { value: 0.3, min: 0, max: 1, step: 0.01 },
+
+    // Ledge grab: heights are the ledge top above the feet
+    ledgeGrabEnabled: { value: true },
+    ledgeReach: { value: 0.3, min: 0.1, max: 1, step: 0.05 }, // past the capsule
+    ledgeMinHeight: { value: 1.5, min: 0.5, max: 3, step: 0.05 },
+    ledgeMaxHeight: { value: 2.4, min: 0.5, max: 3, step: 0.05 },
+    shimmySpeed: { value: 1.0, min: 0.1, max: 3, step: 0.1 },
+    climbDuration: { value: 0.8, min: 0.2, max: 2, step: 0.05 }, // seconds
+
+    // Walls: slide down slowly while pressing into one, jump off along its normal
+    wallSlideEnabled: { value: true },
+    wallProbeDistance: { value: 0.15, min: 0.02, max: 0.5, step: 0.01 }, // past the capsule
+    wallSlideSpeed: { value: 2.0, min: 0, max: 10, step: 0.1 }, // max fall speed on a wall
+    wallJumpForce: { value: 2.5, min: 0, max: 5, step: 0.1 }, // vertical, like jumpForce
+    wallJumpPush: { value: 5.0, min: 0, max: 15, step: 0.1 }, // m/s away from the wall
+    wallJumpLockTime: { value: 0.2, min: 0, max: 1, step: 0.05 }, // seconds air control is ignored after a wall jump
   });
 }
\ No newline at end of file
@@ -104,7 +104,7 @@ function isBone(o: Object3D): o is Bone {
     return (o as any).isBone === true;
 }
 
-function findFirstBoneByName(root: Object3D, candidates: string[]): Bone | null {
+export function findFirstBoneByName(root: Object3D, candidates: string[]): Bone | null {
     const wanted = candidates.map(lower);
     let found: Bone | null = null;
 
@@ -191,7 +191,7 @@ function findLegRig(scene: Object3D, side: "L" | "R", debugLog?: boolean): LegRi
     return { side, hip, knee, ankle, foot, toe };
 }
 
-function setLocalQuaternionFromWorld(bone: Object3D, desiredWorldQuat: Quaternion) {
+export function setLocalQuaternionFromWorld(bone: Object3D, desiredWorldQuat: Quaternion) {
     if (!bone.parent) {
         bone.quaternion.copy(desiredWorldQuat);
         return;
@@ -309,7 +309,7 @@ function chooseBestHit(attempts: CastAttempt[], minToi: number): CastAttempt | n
     return best;
 }
 
-function twoBoneIKSolveWorld(
+export function twoBoneIKSolveWorld(
     hip: Bone,
     knee: Bone,
     ankle: Bone,
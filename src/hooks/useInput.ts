@@ -0,0 +1,40 @@
+import { useCallback, useRef } from 'react';
+import { useKeyboardControls } from '@react-three/drei';
+import { useMobileControls } from '../contexts/MobileControlsContext';
+import { useInputControls } from './useInputControls';
+import {
+  mergeInput,
+  readGamepad,
+  readKeyboard,
+  readTouch,
+  type InputSnapshot,
+  type KeyboardState
+} from '../utils/input';
+
+/**
+ * Returns `read()`, which polls keyboard, mobile touch controls and every
+ * connected gamepad and merges them into one `InputSnapshot`. The function is
+ * stable, so it can be called from frame or physics-step callbacks.
+ */
+export function useInput() {
+  const [, getKeys] = useKeyboardControls();
+  const touch = useMobileControls();
+  const settings = useInputControls();
+
+  // Latest render's values, read when polled
+  const latest = useRef({ touch, settings });
+  latest.current = { touch, settings };
+
+  return useCallback((): InputSnapshot => {
+    const { touch, settings } = latest.current;
+    const sources = [readKeyboard(getKeys() as KeyboardState), readTouch(touch)];
+
+    if (settings.gamepadEnabled && typeof navigator !== 'undefined' && navigator.getGamepads) {
+      for (const pad of navigator.getGamepads()) {
+        if (pad?.connected) sources.push(readGamepad(pad, settings));
+      }
+    }
+
+    return mergeInput(sources, settings);
+  }, [getKeys]);
+}
@@ -0,0 +1,10 @@
+import { useControls } from 'leva';
+
+export function useInputControls() {
+  return useControls('Input', {
+    gamepadEnabled: { value: true },
+    stickDeadzone: { value: 0.15, min: 0, max: 0.9, step: 0.01 },
+    triggerDeadzone: { value: 0.3, min: 0, max: 0.9, step: 0.01 },
+    runThreshold: { value: 0.9, min: 0.1, max: 1, step: 0.01 } // analog stick/joystick push that runs
+  });
+}
@@ -0,0 +1,60 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  DEFAULT_BINDINGS,
+  MAX_KEYS_PER_ACTION,
+  cloneBindings,
+  findConflicts,
+  loadBindings,
+  saveBindings,
+  type Action,
+  type KeyBindings
+} from '../utils/keyBindings';
+
+// Chromium-only Keyboard Map API, for labelling keys as printed on the keyboard
+type LayoutNavigator = Navigator & {
+  keyboard?: { getLayoutMap?: () => Promise<Map<string, string>> };
+};
+
+/**
+ * Live key bindings, persisted on every change, plus any conflicts between
+ * them and the user's keyboard layout (when the browser can tell us).
+ */
+export function useKeyBindings() {
+  const [bindings, setBindings] = useState<KeyBindings>(loadBindings);
+  const [layout, setLayout] = useState<Map<string, string> | null>(null);
+
+  useEffect(() => {
+    saveBindings(bindings);
+  }, [bindings]);
+
+  useEffect(() => {
+    let cancelled = false;
+    (navigator as LayoutNavigator).keyboard
+      ?.getLayoutMap?.()
+      .then((map) => {
+        if (!cancelled) setLayout(map);
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  /** Bind `code` to `slot` of `action`; `null` clears the slot */
+  const setBinding = useCallback((action: Action, slot: number, code: string | null) => {
+    setBindings((prev) => {
+      const next = cloneBindings(prev);
+      const keys = next[action].filter((_, i) => i !== slot);
+      if (code) keys.splice(Math.min(slot, keys.length), 0, code);
+      // The same key twice on one action is pointless
+      next[action] = keys.filter((k, i) => keys.indexOf(k) === i).slice(0, MAX_KEYS_PER_ACTION);
+      return next;
+    });
+  }, []);
+
+  const resetBindings = useCallback(() => setBindings(cloneBindings(DEFAULT_BINDINGS)), []);
+
+  const conflicts = useMemo(() => findConflicts(bindings), [bindings]);
+
+  return { bindings, setBinding, resetBindings, conflicts, layout };
+}
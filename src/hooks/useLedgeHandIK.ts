@@ -0,0 +1,90 @@
+// useLedgeHandIK.ts
+//
+// Places both hands on the ledge edge while the character hangs or climbs,
+// using the same 2-bone solver as the foot locking IK (upper arm, forearm, hand).
+
+import { useEffect, useRef } from "react";
+import { useFrame } from "@react-three/fiber";
+import { MathUtils, Vector3, type Bone, type Object3D } from "three";
+
+import { findFirstBoneByName, twoBoneIKSolveWorld } from "./useFootLockingIK";
+import type { LedgeGrab } from "../utils/probes";
+
+type ArmRig = {
+    upper: Bone;
+    lower: Bone;
+    hand: Bone;
+};
+
+type LedgeHandIKOptions = {
+    /** Half the distance between the hands along the ledge */
+    handSpacing?: number;
+    /** Damping rate for blending the IK in and out */
+    blendSpeed?: number;
+};
+
+const UP = new Vector3(0, 1, 0);
+const TANGENT = new Vector3();
+const HAND = new Vector3();
+const TARGET = new Vector3();
+const POLE = new Vector3();
+
+function findArmRig(root: Object3D, side: "left" | "right"): ArmRig | null {
+    const upper = findFirstBoneByName(root, [`${side}arm`, `mixamorig:${side}arm`]);
+    const lower = findFirstBoneByName(root, [`${side}forearm`, `mixamorig:${side}forearm`]);
+    const hand = findFirstBoneByName(root, [`${side}hand`, `mixamorig:${side}hand`]);
+    if (!upper || !lower || !hand) return null;
+    return { upper, lower, hand };
+}
+
+export function useLedgeHandIK(
+    avatarScene: Object3D | null | undefined,
+    ledge: React.RefObject<LedgeGrab> | undefined,
+    opts?: LedgeHandIKOptions
+) {
+    const handSpacing = opts?.handSpacing ?? 0.22;
+    const blendSpeed = opts?.blendSpeed ?? 10;
+
+    const arms = useRef<{ left: ArmRig | null; right: ArmRig | null }>({ left: null, right: null });
+    const weight = useRef(0);
+
+    useEffect(() => {
+        if (!avatarScene) return;
+        arms.current = {
+            left: findArmRig(avatarScene, "left"),
+            right: findArmRig(avatarScene, "right"),
+        };
+    }, [avatarScene]);
+
+    // Registered after useAnimations, so this runs once the mixer has posed the arms
+    useFrame((_, delta) => {
+        const grab = ledge?.current;
+        const active = !!grab && grab.state !== "none";
+        weight.current = MathUtils.damp(weight.current, active ? 1 : 0, blendSpeed, delta);
+        if (!grab || weight.current < 0.01) return;
+
+        // Right along the ledge when facing the wall
+        TANGENT.set(grab.normal.z, 0, -grab.normal.x);
+
+        const solveArm = (arm: ArmRig | null, side: -1 | 1) => {
+            if (!arm) return;
+
+            arm.hand.getWorldPosition(HAND);
+            TARGET.copy(grab.point)
+                .addScaledVector(TANGENT, side * handSpacing)
+                .addScaledVector(UP, 0.02);
+            TARGET.lerpVectors(HAND, TARGET, weight.current);
+
+            // Elbows bend down and out, away from the wall
+            arm.upper.getWorldPosition(POLE);
+            POLE.addScaledVector(UP, -0.3)
+                .addScaledVector(grab.normal, 0.3)
+                .addScaledVector(TANGENT, side * 0.3);
+
+            twoBoneIKSolveWorld(arm.upper, arm.lower, arm.hand, TARGET, POLE);
+        };
+
+        solveArm(arms.current.left, -1);
+        solveArm(arms.current.right, 1);
+    });
+}
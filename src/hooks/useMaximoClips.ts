@@ -1,6 +1,7 @@
-import { useMemo } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { useFBX } from "@react-three/drei";
 import type { AnimationClip, Object3D, Bone, KeyframeTrack, SkinnedMesh } from "three";
+import { FBXLoader } from "three/examples/jsm/loaders/FBXLoader.js";
 
 /** Mixamo in-place FBX animations */
 const IDLE_ANIM_URL = "/animation/Idle.fbx";
@@ -8,6 +9,38 @@ const WALK_ANIM_URL = "/animation/Female_Walk.fbx";
 const RUN_ANIM_URL = "/animation/Fast_Run.fbx";
 const FALL_ANIM_URL = "/animation/Falling_Idle.fbx";
 
+/** JSON array of the optional files below that are actually present, e.g. ["Crouch_Idle.fbx"] */
+const OPTIONAL_ANIM_MANIFEST_URL = "/animation/manifest.json";
+
+/**
+ * Optional Mixamo clips, keyed by clip name. Only those listed in the manifest
+ * are requested, in the background, so a state can ship before its animation
+ * does (CharacterModel falls back to the base clips).
+ */
+const OPTIONAL_ANIM_URLS: Record<string, string> = {
+    crouchIdle: "/animation/Crouch_Idle.fbx",
+    crouchWalk: "/animation/Crouch_Walk.fbx",
+    hangIdle: "/animation/Hanging_Idle.fbx",
+    shimmyLeft: "/animation/Left_Shimmy.fbx",
+    shimmyRight: "/animation/Right_Shimmy.fbx",
+    climbUp: "/animation/Climb_Up.fbx",
+    wallSlide: "/animation/Wall_Slide.fbx",
+    dash: "/animation/Sprinting_Forward_Roll.fbx",
+    airJump: "/animation/Front_Flip.fbx",
+    jumpStart: "/animation/Jumping_Up.fbx",
+    jumpRise: "/animation/Jump_Rising.fbx",
+    jumpApex: "/animation/Jump_Apex.fbx",
+    landSoft: "/animation/Falling_To_Landing.fbx",
+    landHard: "/animation/Hard_Landing.fbx",
+    swimIdle: "/animation/Treading_Water.fbx",
+    swimStroke: "/animation/Swimming.fbx",
+    hitFront: "/animation/Hit_Front.fbx",
+    hitBack: "/animation/Hit_Back.fbx",
+    hitLeft: "/animation/Hit_Left.fbx",
+    hitRight: "/animation/Hit_Right.fbx",
+    getUp: "/animation/Getting_Up.fbx",
+};
+
 type BoneNameMap = Record<string, string>;
 
 /**
@@ -120,12 +153,53 @@ export type UseMaximoClipsResult = {
     mappedClips: AnimationClip[];
 };
 
+/**
+ * Load the OPTIONAL_ANIM_URLS named in the manifest without suspending;
+ * unparsable files are skipped.
+ */
+function useOptionalClips(): AnimationClip[] {
+    const [clips, setClips] = useState<AnimationClip[]>([]);
+
+    useEffect(() => {
+        let cancelled = false;
+        const loader = new FBXLoader();
+
+        fetch(OPTIONAL_ANIM_MANIFEST_URL)
+            .then((res) => (res.ok ? res.json() : []))
+            .catch(() => [])
+            .then((files: unknown) => {
+                const present = new Set(Array.isArray(files) ? files : []);
+                const wanted = Object.entries(OPTIONAL_ANIM_URLS).filter(([, url]) =>
+                    present.has(url.split("/").pop())
+                );
+                return Promise.all(
+                    wanted.map(([name, url]) =>
+                        loader
+                            .loadAsync(url)
+                            .then((fbx) => nameFirstClip(fbx, name))
+                            .catch(() => null)
+                    )
+                );
+            })
+            .then((loaded) => {
+                if (!cancelled) setClips(loaded.filter((c): c is AnimationClip => c !== null));
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, []);
+
+    return clips;
+}
+
 export function useMaximoClips(avatarRoot?: Object3D | null): UseMaximoClipsResult {
     // Load FBX animations
     const idleFbx = useFBX(IDLE_ANIM_URL);
     const walkFbx = useFBX(WALK_ANIM_URL);
     const runFbx = useFBX(RUN_ANIM_URL);
     const fallFbx = useFBX(FALL_ANIM_URL);
+    const optionalClips = useOptionalClips();
 
     // Raw clips (named)
     const rawClips = useMemo<AnimationClip[]>(() => {
@@ -141,8 +215,10 @@ export function useMaximoClips(avatarRoot?: Object3D | null): UseMaximoClipsResu
         if (run) clips.push(run);
         if (fall) clips.push(fall);
 
+        clips.push(...optionalClips);
+
         return clips;
-    }, [idleFbx, walkFbx, runFbx, fallFbx]);
+    }, [idleFbx, walkFbx, runFbx, fallFbx, optionalClips]);
 
     // Mapped clips (renamed bindings)
     const mappedClips = useMemo<AnimationClip[]>(() => {
@@ -0,0 +1,270 @@
+// useRagdoll.ts
+//
+// Physics ragdoll built from the avatar's own skeleton. While active, the hips,
+// spine, head and limbs are Rapier bodies joined at the bones and the skeleton
+// follows them; when it ends the pose blends back into the running animation.
+//
+// Every part is created with the same body rotation (the character's yaw), and
+// the capsules are turned inside their bodies instead. That keeps joint axes
+// identical in both bodies' frames, which revolute joints need.
+
+import { useCallback, useEffect, useRef } from "react";
+import { useFrame } from "@react-three/fiber";
+import { useRapier, type RapierRigidBody } from "@react-three/rapier";
+import { Quaternion, Vector3, type Bone, type Object3D } from "three";
+
+import { findFirstBoneByName, setLocalQuaternionFromWorld } from "./useFootLockingIK";
+
+/** Shared between the controller (which decides when) and the model (which simulates) */
+export type RagdollState = {
+    active: boolean;
+    /** Velocity every part starts with, set by the controller on activation */
+    launchVelocity: Vector3;
+    /** Pelvis position, world space, written every frame while active */
+    pelvis: Vector3;
+    /** Pelvis speed, to tell when the body has come to rest */
+    speed: number;
+};
+
+export function createRagdollState(): RagdollState {
+    return { active: false, launchVelocity: new Vector3(), pelvis: new Vector3(), speed: 0 };
+}
+
+type JointKind = "ball" | "knee" | "elbow";
+
+type SegmentDef = {
+    name: string;
+    bone: string[];
+    /** Bone at the far end of the segment; without one it runs HEAD_LENGTH on along its parent */
+    end: string[];
+    radius: number;
+    parent?: string;
+    joint?: JointKind;
+};
+
+// Parents before children, so bones can be posed top-down
+const SEGMENTS: SegmentDef[] = [
+    { name: "pelvis", bone: ["hips"], end: ["spine1"], radius: 0.13 },
+    { name: "chest", bone: ["spine1"], end: ["neck"], radius: 0.15, parent: "pelvis", joint: "ball" },
+    { name: "head", bone: ["head"], end: ["headtop_end"], radius: 0.11, parent: "chest", joint: "ball" },
+    ...(["left", "right"] as const).flatMap((side): SegmentDef[] => [
+        { name: `${side}UpperArm`, bone: [`${side}arm`], end: [`${side}forearm`], radius: 0.06, parent: "chest", joint: "ball" },
+        { name: `${side}Forearm`, bone: [`${side}forearm`], end: [`${side}hand`], radius: 0.05, parent: `${side}UpperArm`, joint: "elbow" },
+        { name: `${side}Thigh`, bone: [`${side}upleg`], end: [`${side}leg`], radius: 0.08, parent: "pelvis", joint: "ball" },
+        { name: `${side}Shin`, bone: [`${side}leg`], end: [`${side}foot`], radius: 0.06, parent: `${side}Thigh`, joint: "knee" },
+    ]),
+];
+
+// Knees bend the shin back, elbows bend the forearm forward: both hinge about
+// the character's sideways axis (local +X is its left), in opposite senses
+const HINGE_AXIS: Record<"knee" | "elbow", Vector3> = {
+    knee: new Vector3(1, 0, 0),
+    elbow: new Vector3(-1, 0, 0),
+};
+const HINGE_MAX_BEND: Record<"knee" | "elbow", number> = { knee: 2.4, elbow: 2.5 };
+
+// Parts of group 2 colliding with floor (0) and walls (1) like the capsule, but not each other
+const RAGDOLL_COLLISION_GROUPS = 0x00040003;
+const HEAD_LENGTH = 0.22;
+
+type Part = {
+    def: SegmentDef;
+    bone: Bone;
+    body: RapierRigidBody;
+    /** Bone's world rotation when the ragdoll started */
+    boneRotation: Quaternion;
+    /** Bone's world position relative to the body centre when it started (pelvis only) */
+    boneOffset: Vector3;
+};
+
+type RagdollOptions = {
+    /** Seconds to blend from the ragdoll pose back into the animation */
+    blendTime?: number;
+};
+
+const UP = new Vector3(0, 1, 0);
+const V_A = new Vector3();
+const V_B = new Vector3();
+const Q_A = new Quaternion();
+const Q_B = new Quaternion();
+
+export function useRagdoll(
+    avatarScene: Object3D | null | undefined,
+    ragdoll: React.RefObject<RagdollState> | undefined,
+    opts?: RagdollOptions
+) {
+    const blendTime = opts?.blendTime ?? 0.4;
+
+    const { rapier, world } = useRapier();
+    const bones = useRef<Map<string, { bone: Bone; end: Bone | null }>>(new Map());
+    const parts = useRef<Part[]>([]);
+    const yaw = useRef(new Quaternion());
+
+    // Last ragdoll pose, blended out over `blendTime` once the ragdoll ends
+    const snapshot = useRef<{ bone: Bone; quaternion: Quaternion; position: Vector3 }[]>([]);
+    const blend = useRef(1);
+
+    useEffect(() => {
+        const found = new Map<string, { bone: Bone; end: Bone | null }>();
+        if (avatarScene) {
+            for (const def of SEGMENTS) {
+                const bone = findFirstBoneByName(avatarScene, def.bone);
+                if (bone) found.set(def.name, { bone, end: findFirstBoneByName(avatarScene, def.end) });
+            }
+        }
+        bones.current = found;
+    }, [avatarScene]);
+
+    const removeParts = useCallback(() => {
+        for (const part of parts.current) {
+            if (world.getRigidBody(part.body.handle)) world.removeRigidBody(part.body);
+        }
+        parts.current = [];
+    }, [world]);
+
+    // Don't leave bodies behind if the avatar unmounts mid-fall
+    useEffect(() => removeParts, [removeParts]);
+
+    const buildParts = (state: RagdollState) => {
+        const rig = bones.current;
+        if (!avatarScene || !rig.has("pelvis")) return;
+
+        avatarScene.updateWorldMatrix(true, true);
+
+        // Shared body rotation: the character's facing
+        const parent = avatarScene.parent;
+        parent?.getWorldQuaternion(Q_A);
+        const forward = V_A.set(0, 0, 1).applyQuaternion(Q_A);
+        yaw.current.setFromAxisAngle(UP, Math.atan2(forward.x, forward.z));
+        const inverseYaw = Q_B.copy(yaw.current).invert();
+
+        const built = new Map<string, { part: Part; center: Vector3; start: Vector3; dir: Vector3 }>();
+
+        for (const def of SEGMENTS) {
+            const entry = rig.get(def.name);
+            const parentEntry = def.parent ? built.get(def.parent) : undefined;
+            if (!entry || (def.parent && !parentEntry)) continue;
+
+            const start = entry.bone.getWorldPosition(new Vector3());
+            const end = entry.end
+                ? entry.end.getWorldPosition(new Vector3())
+                : start.clone().addScaledVector(parentEntry?.dir ?? UP, HEAD_LENGTH);
+            const dir = end.clone().sub(start);
+            const length = dir.length();
+            if (length < 1e-3) continue;
+            dir.divideScalar(length);
+
+            const center = start.clone().add(end).multiplyScalar(0.5);
+            const halfHeight = Math.max(0.02, length / 2 - def.radius);
+
+            const body = world.createRigidBody(
+                rapier.RigidBodyDesc.dynamic()
+                    .setTranslation(center.x, center.y, center.z)
+                    .setRotation(yaw.current)
+                    .setLinvel(state.launchVelocity.x, state.launchVelocity.y, state.launchVelocity.z)
+                    .setLinearDamping(0.1)
+                    .setAngularDamping(0.5)
+            );
+            // Capsules run along local Y; turn each one onto its segment
+            const colliderRotation = new Quaternion().setFromUnitVectors(UP, dir).premultiply(inverseYaw);
+            world.createCollider(
+                rapier.ColliderDesc.capsule(halfHeight, def.radius)
+                    .setRotation(colliderRotation)
+                    .setCollisionGroups(RAGDOLL_COLLISION_GROUPS)
+                    .setFriction(0.8),
+                body
+            );
+
+            if (parentEntry && def.joint) {
+                const anchor1 = start.clone().sub(parentEntry.center).applyQuaternion(inverseYaw);
+                const anchor2 = start.clone().sub(center).applyQuaternion(inverseYaw);
+
+                let data: ReturnType<typeof rapier.JointData.spherical>;
+                if (def.joint === "ball") {
+                    // Rapier's JS spherical joints have no cone limits; damping keeps them calm
+                    data = rapier.JointData.spherical(anchor1, anchor2);
+                } else {
+                    const axis = HINGE_AXIS[def.joint];
+                    data = rapier.JointData.revolute(anchor1, anchor2, axis);
+                    // Limits are relative to the pose we start in, so offset them by the current bend
+                    const worldAxis = V_B.copy(axis).applyQuaternion(yaw.current);
+                    const bend = Math.atan2(
+                        worldAxis.dot(V_A.crossVectors(parentEntry.dir, dir)),
+                        parentEntry.dir.dot(dir)
+                    );
+                    data.limitsEnabled = true;
+                    data.limits = [-bend - 0.05, HINGE_MAX_BEND[def.joint] - bend];
+                }
+                world.createImpulseJoint(data, parentEntry.part.body, body, true);
+            }
+
+            const part: Part = {
+                def,
+                bone: entry.bone,
+                body,
+                boneRotation: entry.bone.getWorldQuaternion(new Quaternion()),
+                boneOffset: start.clone().sub(center).applyQuaternion(inverseYaw),
+            };
+            built.set(def.name, { part, center, start, dir });
+        }
+
+        parts.current = [...built.values()].map((b) => b.part);
+    };
+
+    // Registered after useAnimations, so this runs once the mixer has posed the skeleton
+    useFrame((_, delta) => {
+        const state = ragdoll?.current;
+        if (!state) return;
+
+        if (state.active && parts.current.length === 0) buildParts(state);
+
+        if (!state.active && parts.current.length > 0) {
+            snapshot.current = parts.current.map(({ bone }) => ({
+                bone,
+                quaternion: bone.quaternion.clone(),
+                position: bone.position.clone(),
+            }));
+            blend.current = 0;
+            removeParts();
+        }
+
+        if (parts.current.length > 0) {
+            const inverseYaw = Q_B.copy(yaw.current).invert();
+
+            for (const part of parts.current) {
+                const rotation = part.body.rotation();
+                // Bone rotation = body's rotation since the start, applied to the starting pose
+                Q_A.set(rotation.x, rotation.y, rotation.z, rotation.w)
+                    .multiply(inverseYaw)
+                    .multiply(part.boneRotation);
+                setLocalQuaternionFromWorld(part.bone, Q_A);
+
+                if (part.def.name === "pelvis") {
+                    const t = part.body.translation();
+                    Q_A.set(rotation.x, rotation.y, rotation.z, rotation.w);
+                    V_A.copy(part.boneOffset).applyQuaternion(Q_A).add(V_B.set(t.x, t.y, t.z));
+                    state.pelvis.copy(V_A);
+                    const v = part.body.linvel();
+                    state.speed = Math.hypot(v.x, v.y, v.z);
+
+                    const parent = part.bone.parent;
+                    if (parent) {
+                        parent.updateWorldMatrix(true, false);
+                        part.bone.position.copy(parent.worldToLocal(V_A));
+                    }
+                }
+            }
+            return;
+        }
+
+        // Ease from the last ragdoll pose into whatever the mixer wants now
+        if (blend.current < 1) {
+            blend.current = Math.min(1, blend.current + delta / blendTime);
+            for (const { bone, quaternion, position } of snapshot.current) {
+                Q_A.copy(bone.quaternion);
+                bone.quaternion.slerpQuaternions(quaternion, Q_A, blend.current);
+                bone.position.lerpVectors(position, V_A.copy(bone.position), blend.current);
+            }
+        }
+    });
+}
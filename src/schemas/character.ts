@@ -16,7 +16,9 @@ export const CharacterPhysicsSchema = z.object({
     .default(0.6),
 });
 
-// Character State Schema
+// Character State Schema. A replay resets only the character to this; other
+// moving bodies (platforms, balls) aren't recorded, so recordings made near
+// them only reproduce if those start in the same phase.
 export const CharacterStateSchema = z.object({
   position: z.object({
     x: z.number(),
@@ -28,16 +30,46 @@ export const CharacterStateSchema = z.object({
     y: z.number(),
     z: z.number(),
   }),
+  // Facing, radians about +Y
+  rotation: z.number(),
   isGrounded: z.boolean(),
   isJumping: z.boolean(),
-  lastJumpTime: z.number(),
+  isCrouching: z.boolean().default(false),
+  // Omitted: full health
+  health: z.number().nonnegative().optional(),
 });
 
-// Character Input Schema
+// Character Input Schema: one physics tick of player input
 export const CharacterInputSchema = z.object({
   forward: z.boolean(),
   backward: z.boolean(),
   left: z.boolean(),
   right: z.boolean(),
   jump: z.boolean(),
-});
\ No newline at end of file
+  sprint: z.boolean().default(false),
+  crouch: z.boolean().default(false),
+  dash: z.boolean().default(false),
+  // Merged movement axis (keys, joystick or stick), screen space: x right, y back
+  move: z.object({
+    x: z.number().min(-1).max(1),
+    y: z.number().min(-1).max(1),
+  }),
+  // Camera heading the movement is relative to, radians (PI = world space)
+  cameraYaw: z.number(),
+});
+
+// Recorded session: the state to start from, then one input per tick
+export const CharacterReplaySchema = z.object({
+  version: z.literal(1),
+  timeStep: z.number().positive(),
+  mode: z.enum(['dynamic', 'kinematic']),
+  initialState: CharacterStateSchema,
+  // Leva "Character Physics" values when recording began; playback with other
+  // values drifts. Omitted in older recordings
+  controls: z.record(z.union([z.number(), z.boolean()])).optional(),
+  frames: z.array(CharacterInputSchema),
+});
+
+export type CharacterState = z.infer<typeof CharacterStateSchema>;
+export type CharacterInput = z.infer<typeof CharacterInputSchema>;
+export type CharacterReplay = z.infer<typeof CharacterReplaySchema>;
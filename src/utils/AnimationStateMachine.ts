@@ -0,0 +1,144 @@
+import type { BlendSample } from "./BlendSpace1D";
+
+export type AnimationState<C> = {
+  name: string;
+  /**
+   * Clip keyword lists tried in order; the first that matches a loaded clip
+   * plays, so optional clips can fall back to base ones.
+   */
+  clips: string[][];
+  /**
+   * Blend these clips by a parameter instead of playing a single clip (see
+   * BlendSpace1D); `clips` is then only the fallback when none of them load.
+   */
+  blendSpace?: { samples: BlendSample[]; param: (ctx: C) => number };
+  /** "once" plays the state's own clip a single time and holds its last frame */
+  loop?: "repeat" | "once";
+  /** Playback speed; left to the player if omitted */
+  timeScale?: number | ((ctx: C) => number);
+  onEnter?: (ctx: C) => void;
+  onExit?: (ctx: C) => void;
+};
+
+export type AnimationTransition<C> = {
+  /** State(s) this leaves from; "*" is any state */
+  from: string | string[];
+  to: string;
+  /** Also given the seconds spent in the current state, e.g. to hold one for a while */
+  when: (ctx: C, timeInState: number) => boolean;
+  /** Crossfade seconds; the machine's default if omitted */
+  blend?: number;
+  /** Seconds the current state must have run before this may fire */
+  after?: number;
+};
+
+export type AnimationStateChange<C> = {
+  from: AnimationState<C> | null;
+  to: AnimationState<C>;
+  blend: number;
+};
+
+type AnimationStateMachineOptions<C> = {
+  states: AnimationState<C>[];
+  /** Checked in order each update; the first that applies wins */
+  transitions: AnimationTransition<C>[];
+  initial: string;
+  defaultBlend?: number;
+};
+
+type Listener<C> = (change: AnimationStateChange<C>) => void;
+
+/**
+ * AnimationStateMachine
+ * - Declare states (clips, loop mode, enter/exit hooks) and transitions
+ *   (conditions, blend times, any-state "*" sources)
+ * - Call update(ctx, delta) every frame; it returns the change, if any
+ * - Subscribe to "enter"/"exit" with on(event, listener)
+ *
+ * Transitions are ordered by priority: the first whose source matches and whose
+ * condition holds is taken, and if it leads to the current state nothing
+ * changes. Lower transitions therefore don't need to rule out higher ones.
+ */
+export class AnimationStateMachine<C> {
+  private states = new Map<string, AnimationState<C>>();
+  private transitions: AnimationTransition<C>[];
+  private defaultBlend: number;
+  private initial: string;
+  private listeners = { enter: new Set<Listener<C>>(), exit: new Set<Listener<C>>() };
+
+  private _current: AnimationState<C> | null = null;
+  private _timeInState = 0;
+
+  constructor(opts: AnimationStateMachineOptions<C>) {
+    for (const state of opts.states) this.states.set(state.name, state);
+    this.transitions = opts.transitions;
+    this.defaultBlend = opts.defaultBlend ?? 0.15;
+    this.initial = opts.initial;
+
+    for (const t of this.transitions) {
+      if (!this.states.has(t.to)) throw new Error(`Unknown animation state "${t.to}"`);
+    }
+    if (!this.states.has(this.initial)) throw new Error(`Unknown animation state "${this.initial}"`);
+  }
+
+  get current() {
+    return this._current;
+  }
+
+  /** Seconds since the current state was entered */
+  get timeInState() {
+    return this._timeInState;
+  }
+
+  on(event: "enter" | "exit", listener: Listener<C>) {
+    this.listeners[event].add(listener);
+    return () => {
+      this.listeners[event].delete(listener);
+    };
+  }
+
+  /** Forget the current state; the next update enters one from scratch */
+  reset() {
+    this._current = null;
+    this._timeInState = 0;
+  }
+
+  update(ctx: C, delta: number): AnimationStateChange<C> | null {
+    this._timeInState += delta;
+
+    if (!this._current) return this.enter(this.pick(ctx) ?? { to: this.initial, blend: 0 }, ctx);
+
+    const next = this.pick(ctx);
+    if (!next || next.to === this._current.name) return null;
+    return this.enter(next, ctx);
+  }
+
+  private pick(ctx: C) {
+    const current = this._current?.name;
+    for (const t of this.transitions) {
+      const sources = Array.isArray(t.from) ? t.from : [t.from];
+      if (!sources.includes("*") && (!current || !sources.includes(current))) continue;
+      if (t.after !== undefined && current && this._timeInState < t.after) continue;
+      if (t.when(ctx, this._timeInState)) return { to: t.to, blend: t.blend ?? this.defaultBlend };
+    }
+    return null;
+  }
+
+  private enter({ to, blend }: { to: string; blend: number }, ctx: C) {
+    const from = this._current;
+    const state = this.states.get(to)!;
+    const change = { from, to: state, blend };
+
+    if (from) {
+      from.onExit?.(ctx);
+      this.listeners.exit.forEach((l) => l(change));
+    }
+
+    this._current = state;
+    this._timeInState = 0;
+    state.onEnter?.(ctx);
+    this.listeners.enter.forEach((l) => l(change));
+
+    return change;
+  }
+}
@@ -0,0 +1,79 @@
+export type BlendSample = {
+  /** Clip keywords, matched like a state's clips */
+  clip: string[];
+  /** Parameter value (for locomotion, ground speed in m/s) where this clip plays alone at its natural rate */
+  position: number;
+  /** Keep this clip's cycle in step with the other synced clips; off for clips without a gait, like idle */
+  sync?: boolean;
+};
+
+/**
+ * BlendSpace1D
+ * - Weights clips by where a parameter falls between their positions
+ * - Advances one shared, normalized phase (0..1) for the synced clips, so a
+ *   walk and a run blended together plant their feet together
+ * - Past the last position the top clip keeps speeding up, below the first
+ *   synced clip it slows down, so playback rate tracks the parameter
+ *
+ * Samples go in ascending position order. update(value, delta, durations)
+ * takes each sample's clip length in seconds; read weights and phase afterwards.
+ */
+export class BlendSpace1D {
+  readonly samples: BlendSample[];
+  readonly weights: number[];
+
+  private _phase = 0;
+
+  constructor(samples: BlendSample[]) {
+    if (samples.length === 0) throw new Error("BlendSpace1D needs at least one sample");
+    if (samples.some((s, i) => i > 0 && s.position < samples[i - 1].position)) {
+      throw new Error("BlendSpace1D samples must be in ascending position order");
+    }
+    this.samples = samples;
+    this.weights = this.samples.map(() => 0);
+  }
+
+  /** Normalized cycle position shared by the synced clips */
+  get phase() {
+    return this._phase;
+  }
+
+  reset() {
+    this._phase = 0;
+    this.weights.fill(0);
+  }
+
+  update(value: number, delta: number, durations: number[]) {
+    const { samples, weights } = this;
+    const last = samples.length - 1;
+
+    weights.fill(0);
+    if (value <= samples[0].position) {
+      weights[0] = 1;
+    } else if (value >= samples[last].position) {
+      weights[last] = 1;
+    } else {
+      let i = 0;
+      while (value >= samples[i + 1].position) i++;
+      const t = (value - samples[i].position) / (samples[i + 1].position - samples[i].position);
+      weights[i] = 1 - t;
+      weights[i + 1] = t;
+    }
+
+    // Blend the synced clips' natural speeds and lengths, then run the shared
+    // cycle at whatever rate makes that blended speed match `value`
+    let weight = 0;
+    let position = 0;
+    let duration = 0;
+    samples.forEach((sample, i) => {
+      if (!sample.sync || weights[i] === 0 || !(durations[i] > 0)) return;
+      weight += weights[i];
+      position += weights[i] * sample.position;
+      duration += weights[i] * durations[i];
+    });
+    if (weight === 0 || position <= 0) return;
+
+    const rate = value / (position / weight);
+    this._phase = (this._phase + (delta * rate) / (duration / weight)) % 1;
+  }
+}
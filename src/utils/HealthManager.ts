@@ -0,0 +1,104 @@
+import type { Vector3 } from "three";
+
+export type DamageCause = "fall" | "killPlane" | "hit" | (string & {});
+
+export type HealthEvents = {
+  damage: { amount: number; cause: DamageCause; health: number };
+  heal: { amount: number; health: number };
+  death: { cause: DamageCause };
+  checkpoint: { id: string; position: Vector3 };
+  respawn: { position: Vector3; checkpoint: string | null };
+  restore: { health: number };
+};
+
+type Listener<K extends keyof HealthEvents> = (event: HealthEvents[K]) => void;
+
+export type HealthManagerOptions = {
+  maxHealth?: number;
+};
+
+/**
+ * HealthManager
+ * - The character controller deals damage and reports checkpoints and respawns
+ * - UI subscribes with on(event, listener), which returns an unsubscribe function
+ */
+export class HealthManager {
+  private listeners = new Map<keyof HealthEvents, Set<(event: never) => void>>();
+
+  private _maxHealth: number;
+  private _health: number;
+
+  constructor(opts?: HealthManagerOptions) {
+    this._maxHealth = opts?.maxHealth ?? 100;
+    this._health = this._maxHealth;
+  }
+
+  get health() {
+    return this._health;
+  }
+
+  get maxHealth() {
+    return this._maxHealth;
+  }
+
+  get isDead() {
+    return this._health <= 0;
+  }
+
+  on<K extends keyof HealthEvents>(event: K, listener: Listener<K>) {
+    let set = this.listeners.get(event);
+    if (!set) {
+      set = new Set();
+      this.listeners.set(event, set);
+    }
+    set.add(listener);
+    return () => {
+      set?.delete(listener);
+    };
+  }
+
+  setMaxHealth(v: number) {
+    this._maxHealth = Math.max(1, v);
+    this._health = Math.min(this._health, this._maxHealth);
+  }
+
+  damage(amount: number, cause: DamageCause) {
+    if (amount <= 0 || this.isDead) return;
+
+    this._health = Math.max(0, this._health - amount);
+    this.emit("damage", { amount, cause, health: this._health });
+    if (this.isDead) this.emit("death", { cause });
+  }
+
+  kill(cause: DamageCause) {
+    this.damage(this._health, cause);
+  }
+
+  heal(amount: number) {
+    if (amount <= 0 || this.isDead) return;
+
+    const before = this._health;
+    this._health = Math.min(this._maxHealth, this._health + amount);
+    if (this._health > before) this.emit("heal", { amount: this._health - before, health: this._health });
+  }
+
+  reachCheckpoint(id: string, position: Vector3) {
+    this.emit("checkpoint", { id, position });
+  }
+
+  /** Set health outright, e.g. to a replay's starting value; above zero revives */
+  restore(health: number) {
+    this._health = Math.min(this._maxHealth, Math.max(0, health));
+    this.emit("restore", { health: this._health });
+  }
+
+  /** Back to full health; called by the controller once the body is back at a spawn point */
+  respawn(position: Vector3, checkpoint: string | null) {
+    this._health = this._maxHealth;
+    this.emit("respawn", { position, checkpoint });
+  }
+
+  private emit<K extends keyof HealthEvents>(event: K, payload: HealthEvents[K]) {
+    this.listeners.get(event)?.forEach((listener) => (listener as Listener<K>)(payload));
+  }
+}
@@ -0,0 +1,136 @@
+import {
+  AnimationStateMachine,
+  type AnimationState,
+  type AnimationTransition,
+} from "./AnimationStateMachine";
+import type { BlendSample } from "./BlendSpace1D";
+import type { LedgeGrab } from "./probes";
+
+/** Controller state the character's animations are chosen from */
+export type CharacterAnimationContext = {
+  isMoving: boolean;
+  isSprinting: boolean;
+  isGrounded: boolean;
+  isSliding: boolean;
+  isCrouching: boolean;
+  ledgeState: LedgeGrab["state"];
+  shimmyDirection: number;
+  isWallSliding: boolean;
+  isDashing: boolean;
+  airJumpCount: number;
+  isSwimming: boolean;
+  isGettingUp: boolean;
+  /** Rising from our own jump; the ground probe can still reach the floor meanwhile */
+  isRising: boolean;
+  /** Horizontal speed relative to any platform underfoot, m/s */
+  speed: number;
+  /** Vertical speed relative to any platform underfoot, m/s, up positive */
+  verticalSpeed: number;
+  /** A landing reported by the controller just now, if any */
+  landing: "soft" | "hard" | null;
+};
+
+type State = AnimationState<CharacterAnimationContext>;
+type Transition = AnimationTransition<CharacterAnimationContext>;
+
+const FALL = ["fall", "falling"];
+const WALK = ["walk", "walking"];
+const RUN = ["run", "running"];
+
+/**
+ * Ground speeds (m/s) at which the in-place walk and run clips' feet keep pace
+ * with the ground at their natural rate. Between them the clips blend, and
+ * outside them playback speeds up or slows down, so any moveSpeed or sprint
+ * setting animates without foot sliding.
+ */
+const WALK_CLIP_SPEED = 1.5;
+const RUN_CLIP_SPEED = 5;
+
+// Jumps: vertical speeds (m/s) within this of zero count as the apex, and
+// seconds the take-off and landing clips hold before locomotion resumes
+const APEX_SPEED = 1.5;
+const JUMP_START_TIME = 0.25;
+const SOFT_LAND_TIME = 0.25;
+const HARD_LAND_TIME = 0.6;
+
+const GROUNDED = ["locomotion", "crouchIdle", "crouchWalk", "slopeSlide", "landSoft", "landHard"];
+
+const rising = (c: CharacterAnimationContext) =>
+  c.isRising || (!c.isGrounded && c.verticalSpeed > APEX_SPEED);
+
+const LOCOMOTION: BlendSample[] = [
+  { clip: ["idle"], position: 0 },
+  { clip: WALK, position: WALK_CLIP_SPEED, sync: true },
+  { clip: RUN, position: RUN_CLIP_SPEED, sync: true },
+];
+
+export const CHARACTER_STATES: State[] = [
+  { name: "getUp", clips: [["getup"], ["idle"]], loop: "once" },
+  { name: "climb", clips: [["climbup"], FALL] },
+  { name: "hang", clips: [["hangidle"], FALL] },
+  { name: "shimmyLeft", clips: [["shimmyleft"], ["hangidle"], FALL] },
+  { name: "shimmyRight", clips: [["shimmyright"], ["hangidle"], FALL] },
+  { name: "swimIdle", clips: [["swimidle"], ["idle"]] },
+  { name: "swim", clips: [["swimstroke"], WALK] },
+  { name: "dash", clips: [["dash"], RUN] },
+  { name: "wallSlide", clips: [["wallslide"], FALL] },
+  { name: "airJump", clips: [["airjump"], FALL], loop: "once" },
+  { name: "jumpStart", clips: [["jumpstart"], ["jumprise"], FALL], loop: "once" },
+  { name: "rise", clips: [["jumprise"], FALL] },
+  { name: "apex", clips: [["jumpapex"], FALL], loop: "once" },
+  { name: "fall", clips: [FALL] },
+  { name: "landSoft", clips: [["landsoft"], ["idle"]], loop: "once" },
+  { name: "landHard", clips: [["landhard"], ["crouchidle"], ["idle"]], loop: "once" },
+  { name: "slopeSlide", clips: [["slopeslide", "sliding"], FALL] },
+  { name: "crouchIdle", clips: [["crouchidle"], ["idle"]] },
+  { name: "crouchWalk", clips: [["crouchwalk"], WALK] },
+  { name: "locomotion", clips: [["idle"]], blendSpace: { samples: LOCOMOTION, param: (c) => c.speed } },
+];
+
+/**
+ * Highest priority first. Most are any-state ("*") since the controller state
+ * alone decides the pose; add a `from` to make a state reachable only from others.
+ */
+export const CHARACTER_TRANSITIONS: Transition[] = [
+  { from: "*", to: "getUp", when: (c) => c.isGettingUp },
+  { from: "*", to: "climb", when: (c) => c.ledgeState === "climbing" },
+  { from: "*", to: "shimmyLeft", when: (c) => c.ledgeState === "hanging" && c.shimmyDirection < 0 },
+  { from: "*", to: "shimmyRight", when: (c) => c.ledgeState === "hanging" && c.shimmyDirection > 0 },
+  { from: "*", to: "hang", when: (c) => c.ledgeState === "hanging" },
+  { from: "*", to: "swimIdle", when: (c) => c.isSwimming && !c.isMoving },
+  { from: "*", to: "swim", when: (c) => c.isSwimming },
+  { from: "*", to: "dash", when: (c) => c.isDashing },
+  { from: "*", to: "wallSlide", when: (c) => c.isWallSliding },
+  { from: "*", to: "airJump", when: (c) => !c.isGrounded && c.airJumpCount > 0 },
+  // Jumps: take off, rise, turn over at the apex, fall. Walking off an edge
+  // skips straight to falling.
+  { from: GROUNDED, to: "jumpStart", when: rising },
+  { from: "jumpStart", to: "jumpStart", when: (c, t) => rising(c) && t < JUMP_START_TIME },
+  { from: "*", to: "rise", when: rising },
+  {
+    from: ["jumpStart", "rise", "apex"],
+    to: "apex",
+    when: (c) => !c.isGrounded && c.verticalSpeed > -APEX_SPEED,
+  },
+  { from: "*", to: "fall", when: (c) => !c.isGrounded },
+  // Landings: hard ones absorb the impact even on the move, soft ones only at a
+  // standstill. Any-state, as the probe may report ground a moment before the
+  // controller counts the touchdown.
+  { from: "*", to: "landHard", when: (c) => c.landing === "hard" },
+  { from: "*", to: "landSoft", when: (c) => c.landing === "soft" && !c.isMoving },
+  { from: "landHard", to: "landHard", when: (c, t) => !c.isSliding && t < HARD_LAND_TIME },
+  { from: "landSoft", to: "landSoft", when: (c, t) => !c.isSliding && !c.isMoving && t < SOFT_LAND_TIME },
+  { from: "*", to: "slopeSlide", when: (c) => c.isSliding },
+  { from: "*", to: "crouchIdle", when: (c) => c.isCrouching && !c.isMoving },
+  { from: "*", to: "crouchWalk", when: (c) => c.isCrouching },
+  { from: "*", to: "locomotion", when: () => true },
+];
+
+export function createCharacterAnimationMachine() {
+  return new AnimationStateMachine<CharacterAnimationContext>({
+    states: CHARACTER_STATES,
+    transitions: CHARACTER_TRANSITIONS,
+    initial: "locomotion",
+    defaultBlend: 0.15,
+  });
+}
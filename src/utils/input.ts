@@ -0,0 +1,196 @@
+// input.ts
+//
+// One snapshot of player intent, merged from keyboard, the mobile touch
+// controls and a gamepad. Movement is screen-relative: x right, y back
+// (towards the camera), with analog magnitude up to 1.
+
+export type InputSource = 'keyboard' | 'touch' | 'gamepad';
+
+export type InputSnapshot = {
+  moveX: number;
+  moveY: number;
+  /** Length of the movement axis, 0..1 */
+  magnitude: number;
+  /** Digital direction keys as held, for recordings */
+  forward: boolean;
+  backward: boolean;
+  left: boolean;
+  right: boolean;
+  sprint: boolean;
+  jump: boolean;
+  crouch: boolean;
+  dash: boolean;
+  /** The source driving movement */
+  source: InputSource;
+};
+
+export type KeyboardState = {
+  forward?: boolean;
+  backward?: boolean;
+  left?: boolean;
+  right?: boolean;
+  sprint?: boolean;
+  jump?: boolean;
+  crouch?: boolean;
+  dash?: boolean;
+};
+
+export type TouchState = {
+  movement: { x: number; y: number };
+  isJumping: boolean;
+  isCrouching: boolean;
+  isDashing: boolean;
+};
+
+export type GamepadOptions = {
+  /** Stick travel ignored around the centre, 0..1 */
+  stickDeadzone: number;
+  /** Trigger travel ignored before it counts as pressed, 0..1 */
+  triggerDeadzone: number;
+};
+
+export type MergeOptions = {
+  /** Analog movement past this magnitude runs, as if sprint were held */
+  runThreshold: number;
+};
+
+// Standard gamepad mapping (https://w3c.github.io/gamepad/#remapping)
+const PAD_A = 0;
+const PAD_B = 1;
+const PAD_X = 2;
+const PAD_LEFT_TRIGGER = 6;
+const PAD_RIGHT_TRIGGER = 7;
+const PAD_LEFT_STICK = 10;
+
+export function createInputSnapshot(): InputSnapshot {
+  return {
+    moveX: 0,
+    moveY: 0,
+    magnitude: 0,
+    forward: false,
+    backward: false,
+    left: false,
+    right: false,
+    sprint: false,
+    jump: false,
+    crouch: false,
+    dash: false,
+    source: 'keyboard'
+  };
+}
+
+/**
+ * Radial deadzone: inputs inside `deadzone` read as zero and the rest is
+ * rescaled so the output still covers 0..1 smoothly.
+ */
+export function applyRadialDeadzone(x: number, y: number, deadzone: number) {
+  const length = Math.hypot(x, y);
+  if (length <= deadzone || length === 0) return { x: 0, y: 0 };
+
+  const scaled = Math.min(1, (length - deadzone) / (1 - deadzone));
+  return { x: (x / length) * scaled, y: (y / length) * scaled };
+}
+
+export function readKeyboard(keys: KeyboardState): InputSnapshot {
+  const x = (keys.right ? 1 : 0) - (keys.left ? 1 : 0);
+  const y = (keys.backward ? 1 : 0) - (keys.forward ? 1 : 0);
+  const length = Math.hypot(x, y);
+
+  return {
+    moveX: length > 0 ? x / length : 0,
+    moveY: length > 0 ? y / length : 0,
+    magnitude: length > 0 ? 1 : 0,
+    forward: !!keys.forward,
+    backward: !!keys.backward,
+    left: !!keys.left,
+    right: !!keys.right,
+    sprint: !!keys.sprint,
+    jump: !!keys.jump,
+    crouch: !!keys.crouch,
+    dash: !!keys.dash,
+    source: 'keyboard'
+  };
+}
+
+export function readTouch(touch: TouchState): InputSnapshot {
+  const { x, y } = touch.movement;
+  const length = Math.min(1, Math.hypot(x, y));
+  const scale = length > 0 ? length / Math.hypot(x, y) : 0;
+
+  return {
+    moveX: x * scale,
+    moveY: y * scale,
+    magnitude: length,
+    forward: false,
+    backward: false,
+    left: false,
+    right: false,
+    sprint: false,
+    jump: touch.isJumping,
+    crouch: touch.isCrouching,
+    dash: touch.isDashing,
+    source: 'touch'
+  };
+}
+
+/**
+ * Left stick moves, A jumps, B crouches, X dashes and either trigger (or
+ * clicking the left stick) sprints.
+ */
+export function readGamepad(pad: Gamepad, opts: GamepadOptions): InputSnapshot {
+  const pressed = (index: number) => !!pad.buttons[index]?.pressed;
+  const trigger = (index: number) => (pad.buttons[index]?.value ?? 0) > opts.triggerDeadzone;
+
+  const stick = applyRadialDeadzone(pad.axes[0] ?? 0, pad.axes[1] ?? 0, opts.stickDeadzone);
+
+  return {
+    moveX: stick.x,
+    moveY: stick.y,
+    magnitude: Math.hypot(stick.x, stick.y),
+    forward: false,
+    backward: false,
+    left: false,
+    right: false,
+    sprint: trigger(PAD_LEFT_TRIGGER) || trigger(PAD_RIGHT_TRIGGER) || pressed(PAD_LEFT_STICK),
+    jump: pressed(PAD_A),
+    crouch: pressed(PAD_B),
+    dash: pressed(PAD_X),
+    source: 'gamepad'
+  };
+}
+
+/**
+ * Buttons from every source count. Movement comes from the strongest analog
+ * source, so a stick or joystick overrides the keys whenever it's pushed.
+ * Analog input pushed past `runThreshold` runs.
+ */
+export function mergeInput(sources: InputSnapshot[], opts: MergeOptions): InputSnapshot {
+  const merged = createInputSnapshot();
+
+  for (const input of sources) {
+    merged.forward ||= input.forward;
+    merged.backward ||= input.backward;
+    merged.left ||= input.left;
+    merged.right ||= input.right;
+    merged.sprint ||= input.sprint;
+    merged.jump ||= input.jump;
+    merged.crouch ||= input.crouch;
+    merged.dash ||= input.dash;
+
+    const analog = input.source !== 'keyboard';
+    const takesMovement =
+      input.magnitude > 0 &&
+      (merged.magnitude === 0 ||
+        (analog && (merged.source === 'keyboard' || input.magnitude > merged.magnitude)));
+    if (!takesMovement) continue;
+
+    merged.moveX = input.moveX;
+    merged.moveY = input.moveY;
+    merged.magnitude = input.magnitude;
+    merged.source = input.source;
+  }
+
+  if (merged.source !== 'keyboard' && merged.magnitude >= opts.runThreshold) merged.sprint = true;
+
+  return merged;
+}
@@ -0,0 +1,146 @@
+// keyBindings.ts
+//
+// Keyboard bindings for each action, stored as `KeyboardEvent.code` values so
+// they follow physical key positions (WASD stays put on AZERTY) and persisted
+// to localStorage.
+
+export const ACTIONS = [
+  { name: 'forward', label: 'Move forward' },
+  { name: 'backward', label: 'Move back' },
+  { name: 'left', label: 'Move left' },
+  { name: 'right', label: 'Move right' },
+  { name: 'jump', label: 'Jump' },
+  { name: 'sprint', label: 'Sprint' },
+  { name: 'crouch', label: 'Crouch' },
+  { name: 'dash', label: 'Dash' }
+] as const;
+
+export type Action = (typeof ACTIONS)[number]['name'];
+
+export type KeyBindings = Record<Action, string[]>;
+
+/** Keys each action can have bound at once */
+export const MAX_KEYS_PER_ACTION = 2;
+
+export const DEFAULT_BINDINGS: KeyBindings = {
+  forward: ['KeyW', 'ArrowUp'],
+  backward: ['KeyS', 'ArrowDown'],
+  left: ['KeyA', 'ArrowLeft'],
+  right: ['KeyD', 'ArrowRight'],
+  jump: ['Space'],
+  sprint: ['ShiftLeft', 'ShiftRight'],
+  crouch: ['KeyC', 'ControlLeft'],
+  dash: ['KeyE']
+};
+
+const STORAGE_KEY = 'character-controller.keyBindings';
+
+/** Saved bindings, falling back to the defaults for anything missing or malformed */
+export function loadBindings(): KeyBindings {
+  const bindings = cloneBindings(DEFAULT_BINDINGS);
+
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return bindings;
+
+    const saved = JSON.parse(raw) as Record<string, unknown>;
+    for (const { name } of ACTIONS) {
+      const keys = saved?.[name];
+      if (Array.isArray(keys) && keys.every((k) => typeof k === 'string')) {
+        bindings[name] = keys.slice(0, MAX_KEYS_PER_ACTION);
+      }
+    }
+  } catch {
+    // Unavailable storage or bad JSON: keep the defaults
+  }
+
+  return bindings;
+}
+
+export function saveBindings(bindings: KeyBindings) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(bindings));
+  } catch {
+    // Private mode or full storage; bindings still apply for this session
+  }
+}
+
+export function cloneBindings(bindings: KeyBindings): KeyBindings {
+  return Object.fromEntries(ACTIONS.map(({ name }) => [name, [...bindings[name]]])) as KeyBindings;
+}
+
+/** Keys bound to more than one action, with the actions sharing them */
+export function findConflicts(bindings: KeyBindings) {
+  const actionsByKey = new Map<string, Action[]>();
+  for (const { name } of ACTIONS) {
+    for (const key of bindings[name]) {
+      actionsByKey.set(key, [...(actionsByKey.get(key) ?? []), name]);
+    }
+  }
+
+  return [...actionsByKey.entries()]
+    .filter(([, actions]) => actions.length > 1)
+    .map(([key, actions]) => ({ key, actions }));
+}
+
+/** The `map` prop for drei's `KeyboardControls` */
+export function toKeyboardMap(bindings: KeyBindings) {
+  return ACTIONS.map(({ name }) => ({ name, keys: bindings[name] }));
+}
+
+const KEY_NAMES: Record<string, string> = {
+  Space: 'Space',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  ShiftLeft: 'Left Shift',
+  ShiftRight: 'Right Shift',
+  ControlLeft: 'Left Ctrl',
+  ControlRight: 'Right Ctrl',
+  AltLeft: 'Left Alt',
+  AltRight: 'Right Alt',
+  MetaLeft: 'Left Meta',
+  MetaRight: 'Right Meta'
+};
+
+/**
+ * Readable name for a key code. `layout` (from `navigator.keyboard.getLayoutMap()`,
+ * where supported) labels character keys as printed on the user's keyboard.
+ */
+export function formatKey(code: string, layout?: Map<string, string> | null) {
+  const printed = layout?.get(code);
+  if (printed) return printed.toUpperCase();
+  if (KEY_NAMES[code]) return KEY_NAMES[code];
+  if (code.startsWith('Key')) return code.slice(3);
+  if (code.startsWith('Digit')) return code.slice(5);
+  return code;
+}
+
+/** One-line controls hint from the first key of each action, e.g. "WASD to move | SPACE to jump" */
+export function describeBindings(bindings: KeyBindings, layout?: Map<string, string> | null) {
+  const primary = (action: Action) => {
+    const code = bindings[action][0];
+    return code ? formatKey(code, layout).toUpperCase() : null;
+  };
+
+  const parts: string[] = [];
+
+  const move = (['forward', 'left', 'backward', 'right'] as const).map(primary);
+  if (move.every((k): k is string => k !== null)) {
+    parts.push(`${move.every((k) => k.length === 1) ? move.join('') : move.join('/')} to move`);
+  }
+
+  const verbs: [Action, string][] = [
+    ['jump', 'jump'],
+    ['sprint', 'run'],
+    ['crouch', 'crouch'],
+    ['dash', 'dash']
+  ];
+  for (const [action, verb] of verbs) {
+    const key = primary(action);
+    if (key) parts.push(`${key} to ${verb}`);
+  }
+
+  return parts.join(' | ');
+}
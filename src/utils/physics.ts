@@ -1,27 +1,43 @@
-import { vec3 } from '@react-three/rapier';
-
-export function calculateMovement(input: { 
-  forward: boolean; 
-  backward: boolean; 
-  left: boolean; 
-  right: boolean; 
-  sprint: boolean;
-}, moveSpeed: number) {
-  let xImpulse = 0;
-  let zImpulse = 0;
-  
-  if (input.forward) zImpulse -= moveSpeed;
-  if (input.backward) zImpulse += moveSpeed;
-  if (input.left) xImpulse -= moveSpeed;
-  if (input.right) xImpulse += moveSpeed;
-
-  const length = Math.sqrt(xImpulse * xImpulse + zImpulse * zImpulse);
-  if (length === 0) return null;
+import { vec3, type RapierRigidBody } from '@react-three/rapier';
+import { Vector3, type Camera } from 'three';
+
+export type MovementSpace = 'camera' | 'world';
+
+const _forward = new Vector3();
+
+/**
+ * Horizontal heading of the camera, radians: 0 looks along +Z and PI along -Z
+ * (the default view). Null when the camera has no usable horizontal direction.
+ */
+export function getCameraYaw(camera: Camera) {
+  camera.getWorldDirection(_forward);
+  _forward.y = 0;
+
+  // Looking straight down: use the camera's up vector as screen-forward instead
+  if (_forward.lengthSq() < 1e-6) {
+    _forward.copy(camera.up).applyQuaternion(camera.quaternion);
+    _forward.y = 0;
+  }
+  if (_forward.lengthSq() < 1e-6) return null;
+
+  return Math.atan2(_forward.x, _forward.z);
+}
+
+/**
+ * Rotate a normalized input direction (x = right, z = back) so "forward" points
+ * along `yaw`. A yaw of PI leaves it unchanged (forward = -Z).
+ */
+export function resolveYawRelative(normalizedX: number, normalizedZ: number, yaw: number) {
+  const forwardX = Math.sin(yaw);
+  const forwardZ = Math.cos(yaw);
+
+  // right = forward x up
+  const rightX = -forwardZ;
+  const rightZ = forwardX;
 
   return {
-    sprint: input.sprint,
-    normalizedX: xImpulse / length,
-    normalizedZ: zImpulse / length
+    x: rightX * normalizedX - forwardX * normalizedZ,
+    z: rightZ * normalizedX - forwardZ * normalizedZ
   };
 }
 
@@ -35,8 +51,12 @@ export function createJumpImpulse(force: number, currentVelocity: { y: number })
   });
 }
 
-export function createFallForce(fallMultiplier: number) {
-  return vec3({ x: 0, y: -9.81 * (fallMultiplier - 1) * 0.016, z: 0 });
+/**
+ * Extra downward velocity to add this frame so descent feels like
+ * `fallMultiplier` times normal gravity.
+ */
+export function createFallForce(fallMultiplier: number, delta: number) {
+  return vec3({ x: 0, y: -9.81 * (fallMultiplier - 1) * delta, z: 0 });
 }
 
 export function createMovementVelocity(
@@ -50,4 +70,73 @@ export function createMovementVelocity(
     y: currentY,
     z: normalizedZ * moveForce
   });
-}
\ No newline at end of file
+}
+
+/**
+ * Fit a move velocity to the ground under the character. On walkable ground
+ * the horizontal part is kept and `y` is set so the velocity runs along the
+ * surface; on slopes that are too steep the uphill component is removed.
+ */
+export function projectOnGround(
+  velocity: { x: number; y: number; z: number },
+  normal: Vector3,
+  walkable: boolean
+) {
+  if (normal.y <= 1e-3) return { ...velocity };
+
+  if (walkable) {
+    return {
+      x: velocity.x,
+      y: -(velocity.x * normal.x + velocity.z * normal.z) / normal.y,
+      z: velocity.z
+    };
+  }
+
+  // The normal's horizontal part points downhill
+  const horizontal = Math.sqrt(normal.x * normal.x + normal.z * normal.z);
+  if (horizontal < 1e-6) return { ...velocity };
+  const downX = normal.x / horizontal;
+  const downZ = normal.z / horizontal;
+
+  const along = velocity.x * downX + velocity.z * downZ;
+  if (along >= 0) return { ...velocity };
+
+  return {
+    x: velocity.x - downX * along,
+    y: velocity.y,
+    z: velocity.z - downZ * along
+  };
+}
+
+/**
+ * Velocity to add this frame while sliding down a slope: gravity projected
+ * onto the ground plane.
+ */
+export function createSlideVelocity(normal: Vector3, delta: number) {
+  const g = 9.81 * delta;
+  return vec3({
+    x: g * normal.y * normal.x,
+    y: -g + g * normal.y * normal.y,
+    z: g * normal.y * normal.z
+  });
+}
+
+/**
+ * Velocity of a point riding on `body` (linear plus angular contribution),
+ * e.g. the character's feet on a moving platform.
+ */
+export function getPointVelocity(body: RapierRigidBody, point: { x: number; y: number; z: number }) {
+  const v = body.linvel();
+  const w = body.angvel();
+  const com = body.worldCom();
+  const rx = point.x - com.x;
+  const ry = point.y - com.y;
+  const rz = point.z - com.z;
+
+  // v + w x r
+  return vec3({
+    x: v.x + w.y * rz - w.z * ry,
+    y: v.y + w.z * rx - w.x * rz,
+    z: v.z + w.x * ry - w.y * rx
+  });
+}
@@ -0,0 +1,399 @@
+// probes.ts
+//
+// Scene queries the character controller runs every frame against the Rapier world.
+
+import { Vector3 } from "three";
+import type { RapierCollider, RapierContext, RapierRigidBody } from "@react-three/rapier";
+
+type Rapier = RapierContext["rapier"];
+type World = RapierContext["world"];
+type Vec3 = { x: number; y: number; z: number };
+
+export type GroundInfo = {
+  grounded: boolean;
+  /** World-space surface normal under the character (up when airborne) */
+  normal: Vector3;
+  /** Angle between the ground normal and world up, radians */
+  slopeAngle: number;
+  /** Distance from the probe origin (the feet) down to the hit */
+  distance: number;
+  collider: RapierCollider | null;
+};
+
+export function createGroundInfo(): GroundInfo {
+  return {
+    grounded: false,
+    normal: new Vector3(0, 1, 0),
+    slopeAngle: 0,
+    distance: Infinity,
+    collider: null,
+  };
+}
+
+const GROUND_RAY_OFFSETS = [
+  { x: 0, z: 0 },
+  { x: 0.3, z: 0 },
+  { x: -0.3, z: 0 },
+  { x: 0, z: 0.3 },
+  { x: 0, z: -0.3 },
+];
+
+const DOWN = { x: 0, y: -1, z: 0 };
+
+/**
+ * Cast a small fan of rays down from the feet and write the closest hit into `out`.
+ */
+export function probeGround(
+  rapier: Rapier,
+  world: World,
+  body: RapierRigidBody,
+  feet: Vec3,
+  rayLength: number,
+  out: GroundInfo
+): GroundInfo {
+  let closest: ReturnType<World["castRayAndGetNormal"]> = null;
+
+  for (const offset of GROUND_RAY_OFFSETS) {
+    const ray = new rapier.Ray(
+      { x: feet.x + offset.x, y: feet.y, z: feet.z + offset.z },
+      DOWN
+    );
+
+    const hit = world.castRayAndGetNormal(
+      ray,
+      rayLength,
+      true,
+      rapier.QueryFilterFlags.EXCLUDE_SENSORS,
+      undefined,
+      undefined,
+      body
+    );
+
+    if (hit && (!closest || hit.timeOfImpact < closest.timeOfImpact)) closest = hit;
+  }
+
+  out.grounded = closest !== null;
+  out.collider = closest?.collider ?? null;
+  out.distance = closest?.timeOfImpact ?? Infinity;
+
+  // A ray starting inside a solid reports a zero normal; treat it as flat
+  if (closest && (closest.normal.x !== 0 || closest.normal.y !== 0 || closest.normal.z !== 0)) {
+    out.normal.set(closest.normal.x, closest.normal.y, closest.normal.z).normalize();
+  } else {
+    out.normal.set(0, 1, 0);
+  }
+  out.slopeAngle = Math.acos(Math.min(1, Math.max(-1, out.normal.y)));
+
+  return out;
+}
+
+/**
+ * Look for a step in front of the feet that the character can climb without
+ * jumping. Returns the height of the step's top above the feet, or null.
+ *
+ * 1. a low ray forward must hit a steep face close to the capsule,
+ * 2. a ray at max step height must be clear for `minStepDepth` past it,
+ * 3. two rays down, just past the lip and `minStepDepth` further, must both
+ *    land on a flat top no higher than `maxStepHeight`.
+ */
+export function probeStep(
+  rapier: Rapier,
+  world: World,
+  body: RapierRigidBody,
+  feet: Vec3,
+  direction: Vec3,
+  radius: number,
+  maxStepHeight: number,
+  minStepDepth: number
+): number | null {
+  const flags = rapier.QueryFilterFlags.EXCLUDE_SENSORS | rapier.QueryFilterFlags.EXCLUDE_DYNAMIC;
+  const reach = radius + 0.15;
+
+  const cast = (origin: Vec3, dir: Vec3, length: number) =>
+    world.castRayAndGetNormal(
+      new rapier.Ray(origin, dir),
+      length,
+      true,
+      flags,
+      undefined,
+      undefined,
+      body
+    );
+
+  const face = cast({ x: feet.x, y: feet.y + 0.05, z: feet.z }, direction, reach);
+  if (!face || face.normal.y > 0.3) return null;
+
+  const top = feet.y + maxStepHeight + 0.02;
+  const clearance = cast({ x: feet.x, y: top, z: feet.z }, direction, face.timeOfImpact + minStepDepth);
+  if (clearance) return null;
+
+  let height = -Infinity;
+  for (const along of [face.timeOfImpact + 0.05, face.timeOfImpact + minStepDepth]) {
+    const down = cast(
+      { x: feet.x + direction.x * along, y: top, z: feet.z + direction.z * along },
+      DOWN,
+      maxStepHeight + 0.02
+    );
+    if (!down || down.normal.y < 0.7) return null;
+    height = Math.max(height, top - down.timeOfImpact - feet.y);
+  }
+
+  return height > 0.02 && height <= maxStepHeight ? height : null;
+}
+
+/**
+ * Sweep a sphere up from the top of a shorter capsule to check whether there is
+ * room to grow back to full height (e.g. standing up from a crouch).
+ */
+export function probeCeiling(
+  rapier: Rapier,
+  world: World,
+  body: RapierRigidBody,
+  feet: Vec3,
+  radius: number,
+  currentHeight: number,
+  targetHeight: number
+): boolean {
+  const rise = targetHeight - currentHeight;
+  if (rise <= 0) return false;
+
+  const hit = world.castShape(
+    { x: feet.x, y: feet.y + currentHeight - radius, z: feet.z },
+    { x: 0, y: 0, z: 0, w: 1 },
+    { x: 0, y: 1, z: 0 },
+    new rapier.Ball(radius * 0.95),
+    0,
+    rise,
+    true,
+    rapier.QueryFilterFlags.EXCLUDE_SENSORS | rapier.QueryFilterFlags.EXCLUDE_DYNAMIC,
+    undefined,
+    undefined,
+    body
+  );
+
+  return hit !== null;
+}
+
+export type WallInfo = {
+  touching: boolean;
+  /** Horizontal normal of the closest wall, pointing away from it */
+  normal: Vector3;
+  /** Gap between the capsule and the wall */
+  distance: number;
+};
+
+export function createWallInfo(): WallInfo {
+  return { touching: false, normal: new Vector3(), distance: Infinity };
+}
+
+// Query as a member of the character's group (0x0004), hitting only walls (0x0002)
+const WALL_QUERY_GROUPS = 0x00040002;
+
+const WALL_RAY_DIRECTIONS = Array.from({ length: 8 }, (_, i) => {
+  const angle = (i / 8) * Math.PI * 2;
+  return { x: Math.sin(angle), y: 0, z: Math.cos(angle) };
+});
+
+/**
+ * Cast rays outward around the capsule, at two heights, and write the closest
+ * wall within `reach` of its surface into `out`.
+ */
+export function probeWall(
+  rapier: Rapier,
+  world: World,
+  body: RapierRigidBody,
+  feet: Vec3,
+  radius: number,
+  height: number,
+  reach: number,
+  out: WallInfo
+): WallInfo {
+  let closest: ReturnType<World["castRayAndGetNormal"]> = null;
+
+  for (const y of [feet.y + height * 0.35, feet.y + height * 0.75]) {
+    for (const direction of WALL_RAY_DIRECTIONS) {
+      const hit = world.castRayAndGetNormal(
+        new rapier.Ray({ x: feet.x, y, z: feet.z }, direction),
+        radius + reach,
+        true,
+        rapier.QueryFilterFlags.EXCLUDE_SENSORS,
+        WALL_QUERY_GROUPS,
+        undefined,
+        body
+      );
+
+      if (!hit || Math.abs(hit.normal.y) > 0.3) continue;
+      if (!closest || hit.timeOfImpact < closest.timeOfImpact) closest = hit;
+    }
+  }
+
+  out.touching = closest !== null;
+  out.distance = closest ? closest.timeOfImpact - radius : Infinity;
+  if (closest) out.normal.set(closest.normal.x, 0, closest.normal.z).normalize();
+  else out.normal.set(0, 0, 0);
+
+  return out;
+}
+
+/** What a `WaterVolume` stores under `water` in its rigid body's userData */
+export type WaterProperties = {
+  /** World-space height of the water surface */
+  surfaceY: number;
+  /** Upward force on fully submerged bodies, relative to gravity */
+  buoyancy: number;
+  /** Drag rate in 1/s */
+  drag: number;
+};
+
+export type WaterInfo = {
+  inWater: boolean;
+  /** How far the feet are below the surface */
+  depth: number;
+  surfaceY: number;
+  drag: number;
+};
+
+export function createWaterInfo(): WaterInfo {
+  return { inWater: false, depth: 0, surfaceY: -Infinity, drag: 0 };
+}
+
+/**
+ * Find the water volume (if any) the feet are in, by testing the point
+ * against sensor colliders tagged with `WaterProperties`.
+ */
+export function probeWater(
+  rapier: Rapier,
+  world: World,
+  body: RapierRigidBody,
+  feet: Vec3,
+  out: WaterInfo
+): WaterInfo {
+  let water: WaterProperties | null = null;
+
+  world.intersectionsWithPoint(
+    feet,
+    (collider) => {
+      const data = collider.parent()?.userData as { water?: WaterProperties } | undefined;
+      // Keep looking until we find a water volume
+      if (!data?.water) return true;
+      water = data.water;
+      return false;
+    },
+    rapier.QueryFilterFlags.EXCLUDE_SOLIDS,
+    undefined,
+    undefined,
+    body
+  );
+
+  const found = water as WaterProperties | null;
+  out.inWater = found !== null;
+  out.surfaceY = found?.surfaceY ?? -Infinity;
+  out.depth = found ? found.surfaceY - feet.y : 0;
+  out.drag = found?.drag ?? 0;
+
+  return out;
+}
+
+/** What a `Checkpoint` stores under `checkpoint` in its rigid body's userData */
+export type CheckpointProperties = {
+  id: string;
+  /** Feet position to respawn at, world space */
+  spawn: Vector3;
+  /** Facing after respawning, radians */
+  yaw: number;
+};
+
+/** Find the checkpoint volume (if any) the feet are in */
+export function probeCheckpoint(
+  rapier: Rapier,
+  world: World,
+  body: RapierRigidBody,
+  feet: Vec3
+): CheckpointProperties | null {
+  let checkpoint: CheckpointProperties | null = null;
+
+  world.intersectionsWithPoint(
+    feet,
+    (collider) => {
+      const data = collider.parent()?.userData as { checkpoint?: CheckpointProperties } | undefined;
+      if (!data?.checkpoint) return true;
+      checkpoint = data.checkpoint;
+      return false;
+    },
+    rapier.QueryFilterFlags.EXCLUDE_SOLIDS,
+    undefined,
+    undefined,
+    body
+  );
+
+  return checkpoint;
+}
+
+export type LedgeGrab = {
+  state: "none" | "hanging" | "climbing";
+  /** Point on the ledge's edge the hands hold on to, world space */
+  point: Vector3;
+  /** Horizontal normal of the wall below the ledge, pointing away from it */
+  normal: Vector3;
+};
+
+export function createLedgeGrab(): LedgeGrab {
+  return { state: "none", point: new Vector3(), normal: new Vector3(0, 0, 1) };
+}
+
+/**
+ * Find a grabbable ledge in `direction`: a flat top between `minHeight` and
+ * `maxHeight` above the feet, found by a ray down just ahead of the capsule,
+ * whose edge is confirmed by a forward ray just under the top.
+ */
+export function probeLedge(
+  rapier: Rapier,
+  world: World,
+  body: RapierRigidBody,
+  feet: Vec3,
+  direction: Vec3,
+  radius: number,
+  reach: number,
+  minHeight: number,
+  maxHeight: number
+): { point: Vector3; normal: Vector3 } | null {
+  const flags = rapier.QueryFilterFlags.EXCLUDE_SENSORS | rapier.QueryFilterFlags.EXCLUDE_DYNAMIC;
+  const ahead = radius + reach;
+
+  const cast = (origin: Vec3, dir: Vec3, length: number) =>
+    world.castRayAndGetNormal(
+      new rapier.Ray(origin, dir),
+      length,
+      true,
+      flags,
+      undefined,
+      undefined,
+      body
+    );
+
+  const fromY = feet.y + maxHeight;
+  const top = cast(
+    { x: feet.x + direction.x * ahead, y: fromY, z: feet.z + direction.z * ahead },
+    DOWN,
+    maxHeight - minHeight
+  );
+  // toi 0 means the probe started inside geometry, not above a ledge
+  if (!top || top.timeOfImpact <= 0 || top.normal.y < 0.7) return null;
+  const topY = fromY - top.timeOfImpact;
+
+  const face = cast({ x: feet.x, y: topY - 0.05, z: feet.z }, direction, ahead + 0.1);
+  if (!face || Math.abs(face.normal.y) > 0.3) return null;
+
+  const normal = new Vector3(face.normal.x, 0, face.normal.z);
+  if (normal.lengthSq() < 1e-6) return null;
+  normal.normalize();
+
+  return {
+    point: new Vector3(
+      feet.x + direction.x * face.timeOfImpact,
+      topY,
+      feet.z + direction.z * face.timeOfImpact
+    ),
+    normal,
+  };
+}
@@ -0,0 +1,46 @@
+// replay.ts
+//
+// Reading and writing recorded character sessions as JSON files.
+
+import { CharacterReplaySchema, type CharacterReplay } from '../schemas/character';
+
+/** Parse and validate a replay file's text; throws with the first problem found */
+export function parseReplay(text: string): CharacterReplay {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new Error('Replay file is not valid JSON');
+  }
+
+  const result = CharacterReplaySchema.safeParse(json);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(`Invalid replay at ${issue.path.join('.') || 'root'}: ${issue.message}`);
+  }
+  return result.data;
+}
+
+/** Names of the recorded physics settings that differ from `current`; none if the replay has no snapshot */
+export function changedReplayControls(
+  replay: CharacterReplay,
+  current: Record<string, number | boolean>
+): string[] {
+  const recorded = replay.controls;
+  if (!recorded) return [];
+  return Object.keys(recorded).filter((key) => key in current && recorded[key] !== current[key]);
+}
+
+/** Offer the replay as a JSON download */
+export function downloadReplay(replay: CharacterReplay, filename = `replay-${Date.now()}.json`) {
+  const blob = new Blob([JSON.stringify(replay)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+
+  // Revoking right after the click can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}